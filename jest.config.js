@@ -1,11 +1,15 @@
+// Set EXPRESS_VERSION=5 to run the suite against Express 5 (installed as "express5")
+const expressModuleNameMapper = process.env.EXPRESS_VERSION === "5" ? { "^express(/.*)?$": "express5$1" } : {};
+
 /** @type {import('ts-jest').JestConfigWithTsJest} */
 module.exports = {
   preset: "ts-jest",
   testEnvironment: "node",
   roots: ["<rootDir>/src"],
   testMatch: ["**/*.spec.ts"],
+  moduleNameMapper: expressModuleNameMapper,
   collectCoverage: true,
-  collectCoverageFrom: ["src/**/*.ts", "!src/**/*.d.ts", "!src/**/*.spec.ts"],
+  collectCoverageFrom: ["src/**/*.ts", "!src/**/*.d.ts", "!src/**/*.spec.ts", "!src/test-utils.ts"],
   coverageDirectory: "coverage",
   coverageReporters: ["text", "lcov"],
   coverageThreshold: {
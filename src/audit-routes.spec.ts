@@ -0,0 +1,251 @@
+import express, { Router } from "express";
+import { auditRoutes, printAuditReport } from "./audit-routes";
+import { AuditResult } from "./types";
+import { describe as describeRoute } from "./describe";
+import { isExpress5 } from "./test-utils";
+
+const wildcardPath = (prefix: string) => (isExpress5 ? `${prefix}/*path` : `${prefix}/*`);
+
+describe("auditRoutes", () => {
+  function requireAuth(req: any, res: any, next: any) {
+    next();
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("Checks", () => {
+    it("should report unprotected routes matching a sensitive pattern", () => {
+      const app = express();
+      const adminRouter = Router();
+
+      adminRouter.get("/users", (req, res) => res.send("Users"));
+      adminRouter.delete("/users/:id", requireAuth, (req, res) => res.send("Deleted"));
+
+      app.get("/health", (req, res) => res.send("OK"));
+      app.use("/api/admin", adminRouter);
+
+      const result = auditRoutes(app, { protectionMiddlewareName: "requireAuth", sensitivePaths: ["/api/admin/**"] });
+
+      expect(result.findings).toEqual([
+        expect.objectContaining({
+          check: "unprotected-sensitive-route",
+          severity: "error",
+          method: "GET",
+          path: "/api/admin/users",
+          message: "Route matches sensitive pattern /api/admin/** but is not protected",
+        }),
+      ]);
+      expect(result.routeCount).toBe(3);
+      expect(result.passed).toBe(false);
+      expect(result.exitCode).toBe(1);
+    });
+
+    it("should report protection middleware placed after the handler", () => {
+      const app = express();
+
+      app.get("/reports", (req, res) => res.send("Reports"), requireAuth);
+      app.get(
+        "/exports",
+        function exportData(req: any, res: any, next: any) {
+          next();
+        },
+        requireAuth
+      );
+      app.get("/profile", requireAuth, (req, res) => res.send("Profile"));
+
+      const result = auditRoutes(app, { protectionMiddlewareName: "requireAuth" });
+
+      expect(result.findings.map((finding) => [finding.check, finding.path, finding.message])).toEqual([
+        ["protection-after-handler", "/reports", "Protection middleware requireAuth runs after the route handler"],
+        ["protection-after-handler", "/exports", "Protection middleware requireAuth runs after the route handler"],
+      ]);
+    });
+
+    it("should tell described handlers apart from middleware", () => {
+      const app = express();
+      const listInvoices = describeRoute({ summary: "List invoices" }, async (req: any, res: any) => res.send("Invoices"));
+
+      app.get("/invoices", listInvoices, requireAuth, function notFound(req: any, res: any, next: any) {
+        next();
+      });
+
+      expect(auditRoutes(app, { protectionMiddlewareName: "requireAuth" }).findings).toEqual([
+        expect.objectContaining({ check: "protection-after-handler", path: "/invoices" }),
+      ]);
+    });
+
+    it("should report wildcard routes accepting writes", () => {
+      const app = express();
+      const wildcard = wildcardPath("/files");
+
+      app.get(wildcard, (req, res) => res.send("File"));
+      app.put(wildcard, (req, res) => res.send("Saved"));
+      app.delete(wildcard, requireAuth, (req, res) => res.send("Deleted"));
+
+      const result = auditRoutes(app, { protectionMiddlewareName: "requireAuth" });
+
+      expect(result.findings.map((finding) => [finding.check, finding.severity, finding.method, finding.message])).toEqual([
+        ["wildcard-write", "warning", "PUT", "Wildcard route accepts PUT requests without protection"],
+        ["wildcard-write", "warning", "DELETE", "Wildcard route accepts DELETE requests"],
+      ]);
+      expect(result.passed).toBe(true);
+      expect(result.exitCode).toBe(0);
+    });
+
+    it("should report mismatches with the protection rules", () => {
+      const app = express();
+
+      app.get("/health", requireAuth, (req, res) => res.send("OK"));
+
+      const result = auditRoutes(app, {
+        protectionMiddlewareName: "requireAuth",
+        protectionRules: [{ path: "/health", protected: false }],
+      });
+
+      expect(result.findings).toEqual([
+        expect.objectContaining({
+          check: "protection-mismatch",
+          message: "Route does not match protection rule /health: expected public, protected by requireAuth",
+        }),
+      ]);
+    });
+  });
+
+  describe("Policy", () => {
+    const createApp = () => {
+      const app = express();
+
+      app.get("/admin", (req, res) => res.send("Admin"));
+      app.post("/uploads/:name", (req, res) => res.send("Uploaded"));
+
+      return app;
+    };
+
+    it("should pass when no route breaks the policy", () => {
+      const result = auditRoutes(createApp());
+
+      expect(result).toEqual({ findings: [], routeCount: 2, passed: true, exitCode: 0 });
+    });
+
+    it("should override severities and turn checks off", () => {
+      const result = auditRoutes(createApp(), {
+        sensitivePaths: ["/admin", "/uploads/*"],
+        severities: { "unprotected-sensitive-route": "warning" },
+      });
+
+      expect(result.findings.map((finding) => finding.severity)).toEqual(["warning", "warning"]);
+      expect(result.passed).toBe(true);
+
+      expect(
+        auditRoutes(createApp(), { sensitivePaths: ["/admin"], severities: { "unprotected-sensitive-route": "off" } }).findings
+      ).toEqual([]);
+    });
+
+    it("should fail on lower severities when requested", () => {
+      const result = auditRoutes(createApp(), {
+        sensitivePaths: ["/admin"],
+        severities: { "unprotected-sensitive-route": "info" },
+        failOn: "info",
+      });
+
+      expect(result.passed).toBe(false);
+      expect(result.exitCode).toBe(1);
+    });
+
+    it("should sort findings by severity", () => {
+      const app = createApp();
+      app.post(wildcardPath("/admin"), (req, res) => res.send("Write"));
+
+      const result = auditRoutes(app, {
+        sensitivePaths: ["/admin/**"],
+        severities: { "unprotected-sensitive-route": "info", "wildcard-write": "error" },
+      });
+
+      expect(result.findings.map((finding) => [finding.check, finding.severity])).toEqual([
+        ["wildcard-write", "error"],
+        ["unprotected-sensitive-route", "info"],
+        ["unprotected-sensitive-route", "info"],
+      ]);
+    });
+
+    it("should only audit the routes selected by the filters", () => {
+      const result = auditRoutes(createApp(), { sensitivePaths: ["/**"], domainFilter: "uploads" });
+
+      expect(result.routeCount).toBe(1);
+      expect(result.findings.map((finding) => finding.path)).toEqual(["/uploads/:name"]);
+    });
+  });
+});
+
+describe("printAuditReport", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const getOutput = () => (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+  it("should print the findings and the audit outcome", () => {
+    const result: AuditResult = {
+      findings: [
+        {
+          check: "unprotected-sensitive-route",
+          severity: "error",
+          method: "GET",
+          path: "/api/admin/users",
+          message: "Route matches sensitive pattern /api/admin/** but is not protected",
+          route: { method: "GET", path: "/api/admin/users", protected: false, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+        },
+        {
+          check: "wildcard-write",
+          severity: "warning",
+          method: "PUT",
+          path: "/files/*",
+          message: "Wildcard route accepts PUT requests without protection",
+          route: { method: "PUT", path: "/files/*", protected: false, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+        },
+        {
+          check: "wildcard-write",
+          severity: "info",
+          method: "DELETE",
+          path: "/files/*",
+          message: "Wildcard route accepts DELETE requests",
+          route: { method: "DELETE", path: "/files/*", protected: false, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+        },
+      ],
+      routeCount: 12,
+      passed: false,
+      exitCode: 1,
+    };
+
+    printAuditReport(result);
+
+    const output = getOutput();
+
+    expect(output).toContain("Route audit: 12 routes, 1 error, 1 warning, 1 info");
+    expect(output).toMatch(/ERROR\s+│ GET\s+│ \/api\/admin\/users\s+│ Route matches sensitive pattern/);
+    expect(output).toContain("(unprotected-sensitive-route)");
+    expect(output).toMatch(/WARNING │ PUT/);
+    expect(output).toMatch(/INFO\s+│ DELETE/);
+    expect(output).toContain("✖ Audit failed");
+  });
+
+  it("should report a passing audit", () => {
+    printAuditReport({ findings: [], routeCount: 3, passed: true, exitCode: 0 });
+
+    const output = getOutput();
+
+    expect(output).toContain("Route audit: 3 routes, 0 errors, 0 warnings, 0 info");
+    expect(output).toContain("✔ Audit passed");
+  });
+});
@@ -0,0 +1,169 @@
+import chalk from "chalk";
+import { AuditCheck, AuditFinding, AuditPolicy, AuditResult, AuditSeverity, MiddlewareInfo, RouteInfo } from "./types";
+import { extractRoutes } from "./extract-routes";
+import { matchesPathPattern } from "./extract-routes.utils";
+
+/**
+ * Severity of each check unless overridden by the policy
+ */
+const DEFAULT_SEVERITIES: Record<AuditCheck, AuditSeverity> = {
+  "unprotected-sensitive-route": "error",
+  "protection-after-handler": "error",
+  "wildcard-write": "warning",
+  "protection-mismatch": "error",
+};
+
+/**
+ * Severities from the most to the least serious
+ */
+const SEVERITY_ORDER: AuditSeverity[] = ["error", "warning", "info"];
+
+/**
+ * HTTP methods that modify data
+ */
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Audit the routes of an Express application against a security policy
+ *
+ * @param app - Express Application instance
+ * @param policy - Sensitive paths, severities and the protection detection options of `displayRoutes`
+ * @returns The findings, most severe first, and whether the audit passed
+ */
+export function auditRoutes(app: any, policy: AuditPolicy = {}): AuditResult {
+  const { sensitivePaths = [], severities = {}, failOn = "error" } = policy;
+  const routes = extractRoutes(app, policy);
+
+  const findings = routes
+    .flatMap((route) => [
+      ...checkSensitiveRoute(route, sensitivePaths),
+      ...checkProtectionOrder(route),
+      ...checkWildcardWrite(route),
+      ...checkProtectionMismatch(route),
+    ])
+    .flatMap(({ check, route, message }): AuditFinding[] => {
+      const severity = severities[check] ?? DEFAULT_SEVERITIES[check];
+      if (severity === "off") return [];
+
+      return [{ check, severity, method: route.method, path: route.path, message, route }];
+    })
+    .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  const passed = !findings.some((finding) => SEVERITY_ORDER.indexOf(finding.severity) <= SEVERITY_ORDER.indexOf(failOn));
+
+  return { findings, routeCount: routes.length, passed, exitCode: passed ? 0 : 1 };
+}
+
+/**
+ * Print an audit result to the console
+ *
+ * @param result - Result of `auditRoutes`
+ */
+export function printAuditReport(result: AuditResult): void {
+  const { findings, routeCount, passed } = result;
+  const counts = SEVERITY_ORDER.map((severity) => {
+    const count = findings.filter((finding) => finding.severity === severity).length;
+    return `${count} ${severity}${count === 1 || severity === "info" ? "" : "s"}`;
+  });
+
+  console.log(chalk.bold.white(`Route audit: ${routeCount} routes, ${counts.join(", ")}`));
+
+  if (findings.length > 0) {
+    const methodWidth = Math.max(...findings.map((finding) => finding.method.length), 6);
+    const pathWidth = Math.max(...findings.map((finding) => finding.path.length), 10);
+
+    console.log(chalk.dim("─".repeat(methodWidth + pathWidth + 30)));
+
+    findings.forEach((finding) => {
+      console.log(
+        `${getSeverityColor(finding.severity)(finding.severity.toUpperCase().padEnd(7))} │ ` +
+          `${finding.method.padEnd(methodWidth)} │ ` +
+          `${chalk.white(finding.path.padEnd(pathWidth))} │ ` +
+          `${finding.message} ${chalk.dim(`(${finding.check})`)}`
+      );
+    });
+  }
+
+  console.log(passed ? chalk.green("✔ Audit passed") : chalk.red("✖ Audit failed"));
+  console.log(); // Add an empty line at the end
+}
+
+/**
+ * Report unprotected routes matching a sensitive path pattern
+ */
+function checkSensitiveRoute(route: RouteInfo, sensitivePaths: string[]) {
+  const pattern = route.protected ? undefined : sensitivePaths.find((sensitivePath) => matchesPathPattern(sensitivePath, route.path));
+  if (!pattern) return [];
+
+  return [
+    { check: "unprotected-sensitive-route" as const, route, message: `Route matches sensitive pattern ${pattern} but is not protected` },
+  ];
+}
+
+/**
+ * Report protection middleware that can only run once the handler has run
+ * A handler that does not take `next` ends the chain, and protection at the end of the chain guards nothing
+ */
+function checkProtectionOrder(route: RouteInfo) {
+  const sources = route.protection?.sources || [];
+  const chain = route.middlewares;
+
+  // Functions declared without `next` cannot pass the request on
+  const handlerIndex = chain.findIndex((middleware) => middleware.arity < 3);
+  const lastIndex = handlerIndex === -1 ? chain.length - 1 : handlerIndex;
+
+  const misplaced = chain.filter(
+    (middleware: MiddlewareInfo, index) =>
+      sources.includes(middleware.name) && (index > lastIndex || (index === chain.length - 1 && chain.length > 1))
+  );
+
+  return misplaced.map((middleware) => ({
+    check: "protection-after-handler" as const,
+    route,
+    message: `Protection middleware ${middleware.name} runs after the route handler`,
+  }));
+}
+
+/**
+ * Report wildcard routes accepting write methods
+ */
+function checkWildcardWrite(route: RouteInfo) {
+  if (!route.path.includes("*") || !WRITE_METHODS.includes(route.method)) return [];
+
+  return [
+    {
+      check: "wildcard-write" as const,
+      route,
+      message: `Wildcard route accepts ${route.method} requests${route.protected ? "" : " without protection"}`,
+    },
+  ];
+}
+
+/**
+ * Report routes whose detected protection differs from the protection rules
+ */
+function checkProtectionMismatch(route: RouteInfo) {
+  if (!route.protectionMismatch) return [];
+
+  return [
+    {
+      check: "protection-mismatch" as const,
+      route,
+      message: `Route does not match protection rule ${route.protectionMismatch.rule.path}: ${route.protectionMismatch.issues.join("; ")}`,
+    },
+  ];
+}
+
+/**
+ * Get the color of a severity label
+ */
+function getSeverityColor(severity: AuditSeverity): chalk.Chalk {
+  switch (severity) {
+    case "error":
+      return chalk.red;
+    case "warning":
+      return chalk.yellow;
+    default:
+      return chalk.blue;
+  }
+}
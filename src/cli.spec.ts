@@ -0,0 +1,210 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createRequire } from "module";
+import { CliIO, runCli } from "./cli";
+
+const expressPath = require.resolve(process.env.EXPRESS_VERSION === "5" ? "express5" : "express");
+
+const APP_MODULE = `
+const express = require(${JSON.stringify(expressPath)});
+
+function requireAuth(req, res, next) {
+  next();
+}
+
+function createApp() {
+  const app = express();
+  app.get("/health", (req, res) => res.send("OK"));
+  app.get("/api/users", requireAuth, (req, res) => res.send("Users"));
+  app.post("/api/users/:id", (req, res) => res.send("User"));
+  return app;
+}
+
+module.exports = { createApp };
+`;
+
+describe("runCli", () => {
+  let directory: string;
+
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(directory, file), content);
+
+  const run = async (...argv: string[]) => {
+    const output = { stdout: "", stderr: "" };
+    const io: CliIO = {
+      cwd: directory,
+      stdout: { write: (text: string) => (output.stdout += text) },
+      stderr: { write: (text: string) => (output.stderr += text) },
+    };
+
+    return { code: await runCli(argv, io), ...output };
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "routes-cli-"));
+    write("app-module.js", APP_MODULE);
+    write("app.js", "module.exports = require('./app-module').createApp();");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should print the routes of the exported app as a table", async () => {
+    const result = await run("app.js", "--protection-middleware-name", "requireAuth", "--no-color", "--style=ascii");
+
+    expect(result).toEqual({ code: 0, stderr: "", stdout: expect.any(String) });
+    expect(result.stdout.split("\n")).toEqual([
+      "DOMAIN     | METHOD | PATH           | PROTECTION",
+      "-------------------------------------------------",
+      "Root       | GET    | /health        | [open]",
+      "Users      | GET    | /api/users     | [auth]",
+      "           | POST   | /api/users/:id | [open]",
+      "",
+    ]);
+  });
+
+  it("should load the app without starting the server", async () => {
+    const marker = path.join(directory, "listening");
+    write(
+      "server.js",
+      `const app = require("./app-module").createApp();\napp.listen(0, () => require("fs").writeFileSync(${JSON.stringify(marker)}, ""));\nmodule.exports = app;`
+    );
+
+    const result = await run("server.js", "--format", "json");
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(result.code).toBe(0);
+    expect(fs.existsSync(marker)).toBe(false);
+  });
+
+  it("should call factories, from the default export, an app export or a named export", async () => {
+    write("default.js", "exports.default = async () => require('./app-module').createApp();");
+    write("named.js", "exports.app = require('./app-module').createApp;");
+
+    const routeCount = (result: { stdout: string }) => JSON.parse(result.stdout).routes.length;
+
+    expect(routeCount(await run("default.js", "-f", "json"))).toBe(3);
+    expect(routeCount(await run("named.js", "-f", "json"))).toBe(3);
+    expect(routeCount(await run("app-module.js", "-f", "json", "--export", "createApp"))).toBe(3);
+  });
+
+  it("should map the flags to the route options", async () => {
+    const result = await run(
+      "app.js",
+      "-f=json",
+      "--include-filter",
+      "/api/**",
+      "--exclude-filter=/api/users/:id,/admin/**",
+      "--domain-filter",
+      "api",
+      "--protection-middleware-name=requireAuth",
+      "--show-unprotected-only=false",
+      "--app-info",
+      JSON.stringify({ name: "billing" })
+    );
+
+    const inventory = JSON.parse(result.stdout);
+    expect(inventory.app).toEqual({ expressVersion: expect.any(Number), name: "billing" });
+    expect(inventory.routes.map((route: any) => [route.method, route.path, route.protected])).toEqual([["GET", "/api/users", true]]);
+  });
+
+  it("should render the exports and the diagrams", async () => {
+    expect(JSON.parse((await run("app.js", "-f", "openapi")).stdout).paths["/api/users/{id}"]).toBeDefined();
+    expect((await run("app.js", "-f", "openapi-yaml")).stdout).toContain("/api/users/{id}:");
+    expect(JSON.parse((await run("app.js", "-f", "postman")).stdout).info.schema).toContain("v2.1.0");
+    expect((await run("app.js", "-f", "mermaid")).stdout).toMatch(/^flowchart LR/);
+    expect((await run("app.js", "-f", "dot")).stdout).toMatch(/^digraph routes/);
+    expect((await run("app.js", "-f", "markdown", "--group-by", "mount")).stdout).toContain("## Root");
+  });
+
+  it("should write the output to a file", async () => {
+    const result = await run("app.js", "--output", "routes.md", "--format", "markdown", "--sort-by", "path", "--columns", "method,path");
+
+    expect(result).toEqual({ code: 0, stdout: "", stderr: "" });
+    expect(fs.readFileSync(path.join(directory, "routes.md"), "utf8")).toContain("/api/users/:id");
+  });
+
+  it("should fit the table to the terminal width", async () => {
+    const output = { stdout: "" };
+    const stdout = { isTTY: true, columns: 45, write: (text: string) => (output.stdout += text) };
+
+    await runCli(["app.js", "--no-color"], { cwd: directory, stdout, stderr: stdout });
+
+    expect(output.stdout).toContain("│ POST   │ /api/user… │");
+  });
+
+  it("should load options from a config module, overridden by the flags", async () => {
+    write(
+      "routes.config.js",
+      "module.exports = { isProtected: (route) => route.method === 'POST', format: 'json', hideDeprecated: true };"
+    );
+
+    const inventory = JSON.parse((await run("app.js", "--config", "routes.config.js")).stdout);
+    expect(inventory.routes.filter((route: any) => route.protected).map((route: any) => route.path)).toEqual(["/api/users/:id"]);
+
+    expect((await run("app.js", "-c", "routes.config.js", "-f", "markdown")).stdout).toContain("| Method |");
+  });
+
+  describe("TypeScript modules", () => {
+    afterEach(() => {
+      delete createRequire(__filename).extensions[".ts"];
+    });
+
+    it("should register the required modules before loading the app", async () => {
+      write(
+        "register.js",
+        "require.extensions['.ts'] = (module, file) => module._compile(require('fs').readFileSync(file, 'utf8').replace(/: any/g, ''), file);"
+      );
+      write("app.ts", "const { createApp } = require('./app-module');\nconst app: any = createApp();\nmodule.exports = app;");
+
+      const result = await run("app.ts", "--require", "./register.js", "-f", "json");
+
+      expect(result.stderr).toBe("");
+      expect(JSON.parse(result.stdout).routes).toHaveLength(3);
+    });
+
+    it("should require a TypeScript loader", async () => {
+      write("app.ts", "export {};");
+
+      expect((await run("app.ts")).stderr).toBe(
+        "express-routes: Loading app.ts requires tsx or ts-node, install one of them or pass --require\n"
+      );
+    });
+  });
+
+  it("should print the help and the version", async () => {
+    const help = await run("--help");
+    expect(help.code).toBe(0);
+    expect(help.stdout).toMatch(/^Usage: express-routes <module> \[options\]/);
+    expect(help.stdout).toContain("--protection-middleware-name <list>");
+
+    expect((await run("-v")).stdout).toBe(`${JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8")).version}\n`);
+  });
+
+  it.each([
+    [[], "Missing the module exporting the app. Run express-routes --help for usage"],
+    [["app.js", "other.js"], `Unexpected argument ${JSON.stringify("other.js")}, only one module can be given`],
+    [["app.js", "--unknown"], "Unknown option --unknown. Run express-routes --help for the available options"],
+    [["app.js", "--no-domain-filter"], "Unknown option --no-domain-filter. Run express-routes --help for the available options"],
+    [["app.js", "--format"], "Option --format requires a value"],
+    [
+      ["app.js", "-f", "yaml"],
+      `Invalid value "yaml" for -f. Expected one of: ${"table, json, markdown, html, openapi, openapi-yaml, postman, mermaid, dot"}`,
+    ],
+    [["app.js", "--layout", "grid"], `Invalid value ${JSON.stringify("grid")} for --layout. Expected one of: table, tree`],
+    [["app.js", "--color=maybe"], `Invalid value ${JSON.stringify("maybe")} for --color=maybe. Expected one of: true, false`],
+    [["app.js", "--max-width", "wide"], `Option --max-width expects a positive integer, received ${JSON.stringify("wide")}`],
+    [["app.js", "--theme", "{"], "Option --theme expects JSON, received {"],
+    [
+      ["app.js", "--theme", JSON.stringify({ methodColors: { GET: "purple" } })],
+      `Unknown color ${JSON.stringify("purple")}. Available colors: black, red, green, yellow, blue, magenta, cyan, white, gray`,
+    ],
+    [["app.js", "--export", "server"], `app.js has no export named ${JSON.stringify("server")}`],
+    [["app-module.js", "--export=missing"], `app-module.js has no export named ${JSON.stringify("missing")}`],
+    [["app-module.js"], "app-module.js does not export an Express app or a function returning one. Select the export with --export"],
+    [["app.js", "--sort-by", "size"], `Unknown sort key ${JSON.stringify("size")}. Available keys: path, method, registration, file`],
+  ])("should fail on invalid arguments %j", async (argv, message) => {
+    expect(await run(...argv)).toEqual({ code: 1, stdout: "", stderr: `express-routes: ${message}\n` });
+  });
+});
@@ -0,0 +1,439 @@
+#!/usr/bin/env node
+import fs from "fs";
+import net from "net";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import { DisplayRoutesConfig, RouteInfo } from "./types";
+import { extractRouteTree, extractRoutes } from "./extract-routes";
+import { detectExpressVersion, matchesPathPattern } from "./extract-routes.utils";
+import { formatRoutes } from "./print-routes";
+import { formatOpenAPI, routesToOpenAPI } from "./openapi";
+import { routesToPostmanCollection } from "./postman";
+import { toDot, toMermaid } from "./route-diagrams";
+
+/**
+ * Output formats of the command: the route formats, and the OpenAPI, Postman and diagram exports
+ */
+const CLI_FORMATS = ["table", "json", "markdown", "html", "openapi", "openapi-yaml", "postman", "mermaid", "dot"] as const;
+
+type CliFormat = (typeof CLI_FORMATS)[number];
+
+/**
+ * Modules registered before loading a TypeScript module when no `--require` is given, in order of preference
+ */
+const TYPESCRIPT_LOADERS = ["tsx/cjs", "ts-node/register"];
+
+/**
+ * Stream the command writes to
+ */
+export interface CliStream {
+  write(text: string): unknown;
+  isTTY?: boolean;
+  columns?: number;
+}
+
+/**
+ * Environment of the command, replaced in tests
+ */
+export interface CliIO {
+  cwd: string;
+  stdout: CliStream;
+  stderr: CliStream;
+}
+
+/**
+ * Options of the command, parsed from the arguments
+ */
+interface CliOptions {
+  module?: string;
+  export?: string;
+  require: string[];
+  config?: string;
+  format?: CliFormat;
+  output?: string;
+  help: boolean;
+  version: boolean;
+  routes: DisplayRoutesConfig;
+}
+
+/**
+ * Flag of a `DisplayRoutesConfig` option
+ * Lists are comma-separated or repeated, patterns are path patterns like "/api/**"
+ */
+interface RouteFlag {
+  option: keyof DisplayRoutesConfig;
+  type: "boolean" | "string" | "number" | "list" | "patterns" | "json";
+  choices?: string[];
+  description: string;
+}
+
+/**
+ * Flags of the `DisplayRoutesConfig` options, `isProtected` and custom formatters are only available in a `--config` file
+ */
+const ROUTE_FLAGS: Record<string, RouteFlag> = {
+  "domain-filter": { option: "domainFilter", type: "list", description: "Only show routes of these domains" },
+  "show-unprotected-only": { option: "showUnprotectedOnly", type: "boolean", description: "Only show public routes" },
+  "tag-filter": { option: "tagFilter", type: "list", description: "Only show routes with one of these tags" },
+  "hide-deprecated": { option: "hideDeprecated", type: "boolean", description: "Hide deprecated routes" },
+  "role-filter": { option: "roleFilter", type: "list", description: "Only show routes requiring one of these roles" },
+  "scope-filter": { option: "scopeFilter", type: "list", description: "Only show routes requiring one of these scopes" },
+  "include-filter": { option: "includeFilter", type: "patterns", description: "Only show routes matching one of these path patterns" },
+  "exclude-filter": { option: "excludeFilter", type: "patterns", description: "Hide routes matching one of these path patterns" },
+  "protection-middleware-name": {
+    option: "protectionMiddlewareName",
+    type: "list",
+    description: "Names of the middleware protecting routes",
+  },
+  "protection-middleware": { option: "protectionMiddleware", type: "json", description: "Protection middleware descriptors, as JSON" },
+  "protection-rules": { option: "protectionRules", type: "json", description: "Expected protection of routes, as JSON" },
+  "show-protection-mismatches-only": {
+    option: "showProtectionMismatchesOnly",
+    type: "boolean",
+    description: "Only show routes not matching their protection rule",
+  },
+  "group-by": { option: "groupBy", type: "string", choices: ["domain", "path", "mount", "tag"], description: "How routes are grouped" },
+  "sort-by": { option: "sortBy", type: "list", description: "Sort keys: path, method, registration, file" },
+  columns: { option: "columns", type: "list", description: "Columns of the table" },
+  layout: { option: "layout", type: "string", choices: ["table", "tree"], description: "Layout of the table format" },
+  "show-mounts": { option: "showMounts", type: "boolean", description: "Mark where routers are mounted in the tree layout" },
+  "show-location": { option: "showLocation", type: "boolean", description: "Show where routes are registered" },
+  "show-summary": { option: "showSummary", type: "boolean", description: "Show the summary of routes" },
+  "show-stats": { option: "showStats", type: "boolean", description: "Show statistics after the table" },
+  "max-width": { option: "maxWidth", type: "number", description: "Maximum width of the table, the terminal width by default" },
+  overflow: { option: "overflow", type: "string", choices: ["truncate", "wrap"], description: "How long paths are fitted" },
+  color: { option: "color", type: "boolean", description: "Use colors, disable with --no-color" },
+  style: { option: "style", type: "string", choices: ["unicode", "ascii"], description: "Characters of the table" },
+  theme: { option: "theme", type: "json", description: "Method colors and protection icons, as JSON" },
+  "app-info": { option: "appInfo", type: "json", description: "Information about the app, as JSON" },
+};
+
+/**
+ * Flags of the command itself
+ */
+const COMMAND_FLAGS: Record<string, { placeholder?: string; alias?: string; description: string }> = {
+  format: { placeholder: "format", alias: "f", description: `Output format: ${CLI_FORMATS.join(", ")} (default: table)` },
+  output: { placeholder: "file", alias: "o", description: "Write to a file instead of the standard output" },
+  export: { placeholder: "name", alias: "e", description: "Export holding the app or its factory (default: default, then app)" },
+  require: { placeholder: "module", alias: "r", description: "Module to load first, e.g. ts-node/register or tsx/cjs (repeatable)" },
+  config: { placeholder: "file", alias: "c", description: "Module exporting options, overridden by the flags" },
+  help: { alias: "h", description: "Show this help" },
+  version: { alias: "v", description: "Show the version" },
+};
+
+/**
+ * Run the `express-routes` command
+ * @example express-routes ./dist/app.js --format markdown --output ROUTES.md
+ *
+ * The module is loaded without starting the server: `listen` does nothing while the app is loaded and created.
+ *
+ * @param argv - Arguments, without the node executable and the script
+ * @param io - Working directory and output streams
+ * @returns The exit code
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = { cwd: process.cwd(), stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+  try {
+    const options = parseArgs(argv);
+
+    if (options.help) {
+      io.stdout.write(`${formatHelp()}\n`);
+      return 0;
+    }
+
+    if (options.version) {
+      io.stdout.write(`${readVersion()}\n`);
+      return 0;
+    }
+
+    if (!options.module) {
+      throw new Error("Missing the module exporting the app. Run express-routes --help for usage");
+    }
+
+    const requireFromCwd = createRequire(path.join(io.cwd, "package.json"));
+    const file = path.resolve(io.cwd, options.module);
+
+    registerLoaders(options, file, requireFromCwd);
+
+    const config: DisplayRoutesConfig = {
+      ...(options.config ? resolveExport(await loadModule(path.resolve(io.cwd, options.config))) : {}),
+      ...options.routes,
+    };
+    const app = await withoutListen(async () => resolveApp(await loadModule(file), options.export, options.module as string));
+    const content = render(app, options.format ?? config.format ?? "table", {
+      ...config,
+      color: config.color ?? (options.output ? false : undefined),
+      maxWidth: config.maxWidth ?? (!options.output && io.stdout.isTTY ? io.stdout.columns : undefined),
+      appInfo: { expressVersion: detectExpressVersion(app), ...config.appInfo },
+    });
+
+    if (options.output) {
+      fs.writeFileSync(path.resolve(io.cwd, options.output), `${content}\n`);
+    } else {
+      io.stdout.write(`${content}\n`);
+    }
+
+    return 0;
+  } catch (error) {
+    io.stderr.write(`express-routes: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
+
+/**
+ * Parse the arguments of the command
+ * Values follow their flag (`--format json`) or an equals sign (`--format=json`), booleans are negated with `--no-`
+ */
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { require: [], help: false, version: false, routes: {} };
+  const routes = options.routes as Record<string, unknown>;
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+
+    if (!arg.startsWith("-") || arg === "-") {
+      if (options.module) throw new Error(`Unexpected argument "${arg}", only one module can be given`);
+      options.module = arg;
+      continue;
+    }
+
+    const [flag, inlineValue] = arg.replace(/^--?/, "").split(/=(.*)/s);
+    const name = arg.startsWith("--") ? flag : Object.keys(COMMAND_FLAGS).find((key) => COMMAND_FLAGS[key].alias === flag);
+    const negated = name?.startsWith("no-") ? name.slice(3) : undefined;
+    const routeFlag = name !== undefined ? ROUTE_FLAGS[negated ?? name] : undefined;
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) return inlineValue;
+      if (index + 1 >= argv.length) throw new Error(`Option ${arg} requires a value`);
+      return argv[++index];
+    };
+
+    if (name === "help" || name === "version") {
+      options[name] = true;
+    } else if (name === "require") {
+      options.require.push(takeValue());
+    } else if (name === "format") {
+      options.format = parseChoice(arg, takeValue(), CLI_FORMATS);
+    } else if (name === "export" || name === "config" || name === "output") {
+      options[name] = takeValue();
+    } else if (routeFlag && (routeFlag.type === "boolean" || !negated)) {
+      routes[routeFlag.option] = parseRouteFlag(
+        arg,
+        routeFlag,
+        negated !== undefined,
+        routeFlag.type === "boolean" ? inlineValue : takeValue(),
+        routes[routeFlag.option]
+      );
+    } else {
+      throw new Error(`Unknown option ${arg}. Run express-routes --help for the available options`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Convert the value of a `DisplayRoutesConfig` flag
+ */
+function parseRouteFlag(arg: string, flag: RouteFlag, negated: boolean, value: string | undefined, previous: unknown): unknown {
+  switch (flag.type) {
+    case "boolean":
+      if (value === undefined) return !negated;
+      return parseChoice(arg, value, ["true", "false"]) === "true" && !negated;
+    case "number": {
+      const number = Number(value);
+      if (!Number.isInteger(number) || number <= 0) throw new Error(`Option ${arg} expects a positive integer, received "${value}"`);
+      return number;
+    }
+    case "list":
+      return [...((previous as string[] | undefined) ?? []), ...splitList(value as string)];
+    case "patterns": {
+      const patterns = [...((previous as { patterns?: string[] } | undefined)?.patterns ?? []), ...splitList(value as string)];
+      return Object.assign((route: RouteInfo) => patterns.some((pattern) => matchesPathPattern(pattern, route.path)), { patterns });
+    }
+    case "json":
+      try {
+        return JSON.parse(value as string);
+      } catch {
+        throw new Error(`Option ${arg} expects JSON, received ${value}`);
+      }
+    default:
+      return flag.choices ? parseChoice(arg, value as string, flag.choices) : value;
+  }
+}
+
+/**
+ * Check that a value is one of the choices of a flag
+ */
+function parseChoice<T extends string>(arg: string, value: string, choices: readonly T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid value "${value}" for ${arg}. Expected one of: ${choices.join(", ")}`);
+  }
+
+  return value as T;
+}
+
+/**
+ * Split a comma-separated list
+ */
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Register the `--require` modules, or a TypeScript loader when loading a TypeScript module without them
+ */
+function registerLoaders(options: CliOptions, file: string, requireFromCwd: NodeRequire): void {
+  if (options.require.length === 0 && /\.[cm]?tsx?$/.test(file)) {
+    const loader = TYPESCRIPT_LOADERS.find((name) => {
+      try {
+        return requireFromCwd.resolve(name) !== undefined;
+      } catch {
+        return false;
+      }
+    });
+
+    if (!loader) {
+      throw new Error(`Loading ${path.basename(file)} requires tsx or ts-node, install one of them or pass --require`);
+    }
+
+    options.require.push(loader);
+  }
+
+  options.require.forEach((name) => requireFromCwd(name));
+}
+
+/**
+ * Load a CommonJS module, or an ES module when it cannot be required
+ */
+async function loadModule(file: string): Promise<any> {
+  try {
+    return createRequire(file)(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ERR_REQUIRE_ESM") throw error;
+
+    // Kept out of reach of the TypeScript compiler, which turns `import()` into `require` in CommonJS output
+    const importModule = new Function("specifier", "return import(specifier)") as (specifier: string) => Promise<any>;
+    return importModule(pathToFileURL(file).href);
+  }
+}
+
+/**
+ * Get the app exported by a module, calling it when the export is a factory
+ */
+async function resolveApp(exports: any, exportName: string | undefined, moduleName: string): Promise<any> {
+  if (exportName !== undefined && !(exports && exportName in exports)) {
+    throw new Error(`${moduleName} has no export named "${exportName}"`);
+  }
+
+  const exported = exportName !== undefined ? exports[exportName] : resolveExport(exports, ["app"]);
+  const app = isExpressApp(exported) ? exported : await (typeof exported === "function" ? exported() : exported);
+
+  if (!isExpressApp(app)) {
+    throw new Error(`${moduleName} does not export an Express app or a function returning one. Select the export with --export`);
+  }
+
+  return app;
+}
+
+/**
+ * Get the default export of a module, or its first named export found
+ */
+function resolveExport(exports: any, names: string[] = []): any {
+  if (typeof exports === "function" || exports === null || typeof exports !== "object") return exports;
+
+  return [exports.default, ...names.map((name) => exports[name])].find((value) => value !== undefined) ?? exports;
+}
+
+/**
+ * Check whether a value is an Express app
+ */
+function isExpressApp(value: any): boolean {
+  return typeof value === "function" && typeof value.use === "function" && typeof value.handle === "function";
+}
+
+/**
+ * Run a function with `listen` turned into a no-op, so that modules starting the server when loaded do not
+ */
+async function withoutListen<T>(run: () => Promise<T>): Promise<T> {
+  const listen = net.Server.prototype.listen;
+  net.Server.prototype.listen = function (this: net.Server) {
+    return this;
+  } as typeof listen;
+
+  try {
+    return await run();
+  } finally {
+    net.Server.prototype.listen = listen;
+  }
+}
+
+/**
+ * Render the routes of an app in a format of the command
+ */
+function render(app: any, format: CliFormat | NonNullable<DisplayRoutesConfig["format"]>, config: DisplayRoutesConfig): string {
+  switch (format) {
+    case "openapi":
+    case "openapi-yaml":
+      return formatOpenAPI(routesToOpenAPI(extractRoutes(app, config), config), format === "openapi" ? "json" : "yaml");
+    case "postman":
+      return JSON.stringify(routesToPostmanCollection(extractRoutes(app, config), config), null, 2);
+    case "mermaid":
+      return toMermaid(extractRouteTree(app, config));
+    case "dot":
+      return toDot(extractRouteTree(app, config));
+    default:
+      return formatRoutes(extractRoutes(app, config), { ...config, format });
+  }
+}
+
+/**
+ * Format the usage of the command and its flags
+ */
+function formatHelp(): string {
+  const commandFlags = Object.entries(COMMAND_FLAGS).map(([name, flag]) => ({
+    usage: `${flag.alias ? `-${flag.alias}, ` : "    "}--${name}${flag.placeholder ? ` <${flag.placeholder}>` : ""}`,
+    description: flag.description,
+  }));
+  const routeFlags = Object.entries(ROUTE_FLAGS).map(([name, flag]) => ({
+    usage: `    --${name}${flag.type === "boolean" ? "" : ` <${flag.choices ? flag.choices.join("|") : flag.type}>`}`,
+    description: flag.description,
+  }));
+  const width = Math.max(...[...commandFlags, ...routeFlags].map((flag) => flag.usage.length)) + 2;
+  const formatFlags = (flags: Array<{ usage: string; description: string }>) =>
+    flags.map((flag) => `  ${flag.usage.padEnd(width)}${flag.description}`);
+
+  return [
+    "Usage: express-routes <module> [options]",
+    "",
+    "Print the routes of the Express app exported by a module, without starting the server.",
+    "The module exports the app, or a function returning it, as default or as app.",
+    "",
+    "Options:",
+    ...formatFlags(commandFlags),
+    "",
+    "Route options:",
+    ...formatFlags(routeFlags),
+  ].join("\n");
+}
+
+/**
+ * Read the version of the package
+ */
+function readVersion(): string {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8")).version;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+
+    // Exit explicitly, the loaded app may hold database connections or timers,
+    // but only once the output is flushed, as writes to pipes may still be pending
+    process.stdout.write("", () => process.stderr.write("", () => process.exit()));
+  });
+}
@@ -0,0 +1,126 @@
+import { describe as describeRoute, tag, protectionFactory, getRouteMetadata, mergeRouteMetadata } from "./describe";
+
+describe("describe", () => {
+  it("should return a middleware that only calls next", () => {
+    const middleware = describeRoute({ summary: "List users" });
+    const next = jest.fn();
+
+    middleware({}, {}, next);
+
+    expect(next).toHaveBeenCalledWith();
+    expect(getRouteMetadata(middleware)).toEqual({ summary: "List users" });
+  });
+
+  it("should return a fresh middleware on each call", () => {
+    const first = describeRoute({ summary: "First" });
+    const second = describeRoute({ summary: "Second" });
+
+    expect(first).not.toBe(second);
+    expect(getRouteMetadata(first)).toEqual({ summary: "First" });
+  });
+
+  it("should wrap a handler and keep its name", () => {
+    const handler = jest.fn(function listUsers(req: any, res: any, next: any) {
+      next();
+    });
+    Object.defineProperty(handler, "name", { value: "listUsers" });
+
+    const wrapped = describeRoute({ tags: ["users"] }, handler);
+    const next = jest.fn();
+
+    wrapped("req", "res", next);
+
+    expect(wrapped).not.toBe(handler);
+    expect(wrapped.name).toBe("listUsers");
+    expect(handler).toHaveBeenCalledWith("req", "res", next);
+    expect(getRouteMetadata(handler)).toBeUndefined();
+  });
+
+  it("should keep the arity of error handlers", () => {
+    const handleErrors = jest.fn();
+    const errorHandler = (err: any, req: any, res: any, next: any) => handleErrors(err, req, res, next);
+
+    const wrapped = describeRoute({ owner: "platform" }, errorHandler);
+    wrapped("error", "req", "res", "next");
+
+    expect(wrapped.length).toBe(4);
+    expect(handleErrors).toHaveBeenCalledWith("error", "req", "res", "next");
+  });
+
+  it("should keep the arity of request handlers", () => {
+    const wrapped = describeRoute({ summary: "List users" }, async (req: any, res: any) => res.send("Users"));
+
+    expect(wrapped.length).toBe(2);
+  });
+
+  it("should merge metadata when wrapping a described handler", () => {
+    const described = describeRoute({ tags: ["users"], owner: "identity" });
+
+    expect(getRouteMetadata(describeRoute({ tags: ["admin"], owner: "platform" }, described))).toEqual({
+      tags: ["users", "admin"],
+      owner: "platform",
+    });
+  });
+
+  it("should not expose metadata as an enumerable property", () => {
+    expect(Object.keys(describeRoute({ summary: "Hidden" }))).toEqual([]);
+  });
+});
+
+describe("tag", () => {
+  it("should create a middleware carrying the tags", () => {
+    expect(getRouteMetadata(tag("users", "public"))).toEqual({ tags: ["users", "public"] });
+  });
+});
+
+describe("protectionFactory", () => {
+  it("should describe the middleware created by the factory with its protection", () => {
+    const createRoleCheck = (...roles: string[]) =>
+      function requireRole(req: any, res: any, next: any) {
+        next(roles.length ? undefined : new Error("No role"));
+      };
+    const requireRole = protectionFactory(createRoleCheck, { scheme: "session", roles: (...roles) => roles });
+
+    const middleware = requireRole("admin", "editor");
+    const next = jest.fn();
+    middleware({}, {}, next);
+
+    expect(middleware.name).toBe("requireRole");
+    expect(next).toHaveBeenCalledWith(undefined);
+    expect(getRouteMetadata(middleware)).toEqual({ auth: "session", roles: ["admin", "editor"] });
+  });
+
+  it("should read scopes from the factory arguments", () => {
+    const checkScopes = protectionFactory((scopes: string[]) => () => scopes, { scheme: "bearer", scopes: (scopes) => scopes });
+
+    expect(getRouteMetadata(checkScopes(["users:read"]))).toEqual({ auth: "bearer", scopes: ["users:read"] });
+  });
+});
+
+describe("getRouteMetadata", () => {
+  it("should return undefined for undescribed functions and other values", () => {
+    expect(getRouteMetadata(() => {})).toBeUndefined();
+    expect(getRouteMetadata("describe")).toBeUndefined();
+    expect(getRouteMetadata(undefined)).toBeUndefined();
+  });
+});
+
+describe("mergeRouteMetadata", () => {
+  it("should combine tags and roles and override other fields", () => {
+    expect(
+      mergeRouteMetadata([
+        { tags: ["users"], roles: ["reader"], summary: "Old", deprecated: true },
+        undefined,
+        { tags: ["users", "admin"], roles: ["admin"], scopes: ["users:read"], summary: "New", team: "identity" },
+        { scopes: ["users:read", "users:write"] },
+      ])
+    ).toEqual({
+      tags: ["users", "admin"],
+      roles: ["reader", "admin"],
+      scopes: ["users:read", "users:write"],
+      summary: "New",
+      deprecated: true,
+      team: "identity",
+    });
+  });
+});
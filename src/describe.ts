@@ -0,0 +1,140 @@
+import { RouteMetadata, ProtectionFactoryOptions } from "./types";
+
+/**
+ * Key under which `describe` stores metadata on a function
+ */
+const ROUTE_METADATA = Symbol.for("express-route-visualizer.metadata");
+
+/**
+ * Key under which `describe` stores the handler a wrapper calls
+ */
+const DESCRIBED_HANDLER = Symbol.for("express-route-visualizer.handler");
+
+/**
+ * Attach documentation metadata to a route or to every route below a router
+ *
+ * Without a handler, returns a middleware that only calls `next()`:
+ * `router.get("/users", describe({ summary: "List users", tags: ["users"] }), handler)`.
+ * With a handler, returns a wrapper that keeps its name and arity.
+ *
+ * @param metadata - Summary, tags, owner, roles, deprecation note or custom fields
+ * @param handler - Optional middleware or handler to wrap
+ * @returns A middleware carrying the metadata
+ */
+export function describe(metadata: RouteMetadata, handler?: (...args: any[]) => any): (...args: any[]) => any {
+  const middleware = handler ? wrapHandler(handler) : describedMiddleware;
+
+  // Non-enumerable so that it is not mistaken for a property attached by the application
+  Object.defineProperty(middleware, ROUTE_METADATA, { value: mergeRouteMetadata([getRouteMetadata(handler), metadata]) });
+
+  return middleware;
+
+  function describedMiddleware(req: any, res: any, next: (err?: any) => void) {
+    next();
+  }
+}
+
+/**
+ * Attach tags to a route or to every route below a router
+ * @example router.use(tag("internal")) => every route of the router is tagged "internal"
+ *
+ * @param tags - Tags to attach
+ * @returns A middleware carrying the tags
+ */
+export function tag(...tags: string[]): (...args: any[]) => any {
+  return describe({ tags });
+}
+
+/**
+ * Make a middleware factory describe the protection of the middleware it creates
+ * @example const requireRole = protectionFactory(createRoleCheck, { scheme: "session", roles: (...roles) => roles });
+ *          router.get("/admin", requireRole("admin"), handler) => protected by "session" with role "admin"
+ *
+ * @param factory - Function creating a middleware from its arguments
+ * @param options - Scheme enforced by the middleware, and how to read roles and scopes from the arguments
+ * @returns A factory creating described middleware
+ */
+export function protectionFactory<A extends any[]>(
+  factory: (...args: A) => (...args: any[]) => any,
+  options: ProtectionFactoryOptions<A>
+): (...args: A) => (...args: any[]) => any {
+  return (...args: A) => {
+    const metadata: RouteMetadata = { auth: options.scheme };
+    if (options.roles) metadata.roles = options.roles(...args);
+    if (options.scopes) metadata.scopes = options.scopes(...args);
+
+    return describe(metadata, factory(...args));
+  };
+}
+
+/**
+ * Get the metadata attached to a function with `describe` or `tag`
+ */
+export function getRouteMetadata(handle: any): RouteMetadata | undefined {
+  return typeof handle === "function" ? handle[ROUTE_METADATA] : undefined;
+}
+
+/**
+ * Get the handler a function returned by `describe` wraps, or the function itself
+ */
+export function getDescribedHandler(handle: any): any {
+  return (typeof handle === "function" && handle[DESCRIBED_HANDLER]) || handle;
+}
+
+/**
+ * Merge the metadata of a middleware chain, in execution order
+ * Tags, roles and scopes are combined, other fields are overridden by later middleware
+ */
+export function mergeRouteMetadata(metadataList: Array<RouteMetadata | undefined>): RouteMetadata {
+  return metadataList.reduce<RouteMetadata>((merged, metadata) => {
+    if (!metadata) return merged;
+
+    return {
+      ...merged,
+      ...metadata,
+      ...(metadata.tags && { tags: unique([...(merged.tags || []), ...metadata.tags]) }),
+      ...(metadata.roles && { roles: unique([...(merged.roles || []), ...metadata.roles]) }),
+      ...(metadata.scopes && { scopes: unique([...(merged.scopes || []), ...metadata.scopes]) }),
+    };
+  }, {});
+}
+
+/**
+ * Create a fresh function calling the handler, so metadata is not shared with other uses of it
+ */
+function wrapHandler(handler: (...args: any[]) => any): (...args: any[]) => any {
+  // Express tells error handlers apart by their number of parameters
+  const wrapper = handler.length === 4 ? wrapErrorHandler(handler) : wrapRequestHandler(handler);
+
+  Object.defineProperty(wrapper, "name", { value: handler.name });
+  Object.defineProperty(wrapper, "length", { value: handler.length });
+  // Keep the handler, so that the wrapper is described like it, as an async function for instance
+  Object.defineProperty(wrapper, DESCRIBED_HANDLER, { value: getDescribedHandler(handler) });
+
+  return wrapper;
+}
+
+/**
+ * Wrap an error-handling middleware, keeping its four parameters
+ */
+function wrapErrorHandler(handler: (...args: any[]) => any): (...args: any[]) => any {
+  return function (this: any, err: any, req: any, res: any, next: any) {
+    return handler.call(this, err, req, res, next);
+  };
+}
+
+/**
+ * Wrap a request handler or middleware
+ */
+function wrapRequestHandler(handler: (...args: any[]) => any): (...args: any[]) => any {
+  return function (this: any, req: any, res: any, next: any) {
+    return handler.call(this, req, res, next);
+  };
+}
+
+/**
+ * Remove duplicate values, keeping the first occurrence
+ */
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -1,13 +1,25 @@
-import { RouteInfo, DisplayRoutesConfig } from "./types";
+import { RouteInfo, DisplayRoutesConfig, GroupBy, MiddlewareScope, MountedMiddleware, RouterNode, RouteNode, RouteTreeNode } from "./types";
 import {
   isRouteLayer,
   isNestedRouter,
   isSpecialMiddleware,
+  isMiddlewareLayer,
+  isExpressInternalMiddleware,
+  isPathPrefix,
   extractMiddlewares,
+  describeMiddleware,
   determineRouteProtection,
+  findProtectionMismatch,
+  findProtectionRule,
+  collectRouteMetadata,
+  extractLayerBaseRoutes,
   extractBaseRoute,
+  getAppRouter,
   combinePaths,
+  ProtectionOptions,
 } from "./extract-routes.utils";
+import { getDeclaredPaths, getDeclaredLocation } from "./instrument";
+import { getRouteGroup } from "./route-groups";
 
 /**
  * Extracts routes from Express application based on provided configuration
@@ -20,64 +32,142 @@ export function extractRoutes(
   app: any, // Using 'any' to ensure compatibility with all Express versions
   config: DisplayRoutesConfig = {}
 ): RouteInfo[] {
-  // Extract configuration options with defaults
-  const {
-    domainFilter,
-    showUnprotectedOnly = false,
-    isProtected: isProtectedFn,
-    includeFilter,
-    excludeFilter,
-    protectionMiddlewareName,
-  } = config;
+  const tree = extractAppNode(app, config);
+  if (!tree) return [];
 
-  // Try to get the router from the Express app
-  const router = app?._router;
+  // Apply filters to the extracted routes
+  return filterRoutes(flattenRouteTree(tree), config);
+}
+
+/**
+ * Extracts the routers and routes of an Express application as a tree
+ * Routers left without routes once the filters are applied are omitted
+ *
+ * @param app - Express Application instance
+ * @param config - Configuration options
+ * @returns The app node, with nested routers and routes in registration order
+ */
+export function extractRouteTree(app: any, config: DisplayRoutesConfig = {}): RouterNode {
+  const tree = extractAppNode(app, config);
+  if (!tree) return { type: "app", mountPath: "/", path: "/", middlewares: [], children: [] };
+
+  return filterRouteTree(tree, new Set(filterRoutes(flattenRouteTree(tree), config)));
+}
+
+/**
+ * Extracts the routers and routes of an Express application, before filtering
+ */
+function extractAppNode(app: any, config: DisplayRoutesConfig): RouterNode | undefined {
+  const { isProtected, protectionMiddlewareName, protectionMiddleware, protectionRules } = config;
+
+  // Try to get the router from the Express app (Express 4 or 5)
+  const router = getAppRouter(app);
 
   // If no router is found, app may not be initialized
-  if (!router) {
+  // Express 5 creates its router lazily, so an empty stack means the same
+  if (!router || !router.stack?.length) {
     console.warn("No router found in Express app. The app may be empty or not initialized properly.");
-    return [];
+    return undefined;
   }
 
   // Extract all routes from the Express app
-  const extractedRoutes = extractRoutesFromRouter(router, "/", isProtectedFn, protectionMiddlewareName);
-
-  // Apply filters to the extracted routes
-  return filterRoutes(extractedRoutes, {
-    domainFilter,
-    showUnprotectedOnly,
-    includeFilter,
-    excludeFilter,
-  });
+  return {
+    type: "app",
+    mountPath: "/",
+    path: "/",
+    ...extractRoutesFromRouter(router, "/", [], "app", {
+      isProtected,
+      protectionMiddlewareName,
+      protectionMiddleware,
+      protectionRules,
+    }),
+  };
 }
 
 /**
  * Extracts routes from a router and its nested routers
+ * The middleware the router registers is added to `mountedMiddlewares`, shared with its parent routers:
+ * requests falling through a router to the layers after it have run its middleware
  */
 function extractRoutesFromRouter(
   router: any,
   baseRoute: string,
-  isProtectedFn?: (route: RouteInfo) => boolean,
-  protectionMiddlewareName?: string | string[]
-): RouteInfo[] {
+  mountedMiddlewares: MountedMiddleware[],
+  scope: MiddlewareScope,
+  protectionOptions: ProtectionOptions
+): Pick<RouterNode, "middlewares" | "children"> {
   // Skip if router has no stack (no routes defined)
   const stack = router.stack || [];
 
+  // Middleware registered on this router
+  const middlewares: MountedMiddleware[] = [];
+
   // Process each layer in the router stack and combine results
-  return stack.flatMap((layer: any) => {
+  const children = stack.flatMap((layer: any): RouteTreeNode[] => {
     if (isRouteLayer(layer)) {
       // This is a route definition (like router.get('/users', ...))
-      return extractRoutesFromRouteLayer(layer, baseRoute, isProtectedFn, protectionMiddlewareName);
+      return extractRoutesFromRouteLayer(layer, baseRoute, mountedMiddlewares, protectionOptions);
     } else if (isNestedRouter(layer)) {
       // Handle nested router (router inside router)
-      return extractRoutesFromNestedRouter(layer, baseRoute, isProtectedFn, protectionMiddlewareName);
+      return extractRoutesFromNestedRouter(layer, baseRoute, mountedMiddlewares, protectionOptions);
+    } else if (isMiddlewareLayer(layer)) {
+      // Remember middleware so that the routes registered after it inherit it
+      if (!isExpressInternalMiddleware(layer)) {
+        resolveMountPaths(layer).forEach((mountPath) => {
+          const middleware = {
+            path: combinePaths(baseRoute, mountPath),
+            info: describeMiddleware(layer.handle, scope, getDeclaredLocation(layer)),
+          };
+
+          mountedMiddlewares.push(middleware);
+          middlewares.push(middleware);
+        });
+      }
+      return [];
     } else if (isSpecialMiddleware(layer)) {
       // Handle special middleware that might contain routes
-      return extractRoutesFromSpecialMiddleware(layer, baseRoute, isProtectedFn, protectionMiddlewareName);
+      return extractRoutesFromSpecialMiddleware(layer, baseRoute, mountedMiddlewares, protectionOptions);
     }
     // Other middleware types are ignored
     return [];
   });
+
+  return { middlewares, children };
+}
+
+/**
+ * List the routes of a tree node in registration order
+ */
+function flattenRouteTree(node: RouteTreeNode): RouteInfo[] {
+  return node.type === "route" ? node.routes : node.children.flatMap(flattenRouteTree);
+}
+
+/**
+ * Keep the given routes in a router node, dropping the routers left without routes
+ */
+function filterRouteTree(node: RouterNode, routes: Set<RouteInfo>): RouterNode {
+  const children = node.children.flatMap((child): RouteTreeNode[] => {
+    if (child.type === "route") {
+      const childRoutes = child.routes.filter((route) => routes.has(route));
+      return childRoutes.length > 0 ? [{ ...child, routes: childRoutes }] : [];
+    }
+
+    const router = filterRouteTree(child, routes);
+    return router.children.length > 0 ? [router] : [];
+  });
+
+  return { ...node, children };
+}
+
+/**
+ * Get the paths a layer is mounted on, preferring the ones recorded by `instrument`
+ * Recorded RegExps are rendered from their source, as when the app is not instrumented
+ */
+function resolveMountPaths(layer: any): string[] {
+  const declaredPaths = getDeclaredPaths(layer);
+  if (!declaredPaths) return extractLayerBaseRoutes(layer);
+
+  return declaredPaths.map((mountPath) => (typeof mountPath === "string" ? mountPath : extractBaseRoute(mountPath)));
 }
 
 /**
@@ -87,18 +177,35 @@ function filterRoutes(
   routes: RouteInfo[],
   filters: {
     domainFilter?: string | string[];
+    groupBy?: GroupBy;
     showUnprotectedOnly?: boolean;
+    tagFilter?: string | string[];
+    hideDeprecated?: boolean;
+    roleFilter?: string | string[];
+    scopeFilter?: string | string[];
+    showProtectionMismatchesOnly?: boolean;
     includeFilter?: (route: RouteInfo) => boolean;
     excludeFilter?: (route: RouteInfo) => boolean;
   }
 ): RouteInfo[] {
-  const { domainFilter, showUnprotectedOnly, includeFilter, excludeFilter } = filters;
+  const {
+    domainFilter,
+    groupBy,
+    showUnprotectedOnly,
+    tagFilter,
+    hideDeprecated,
+    roleFilter,
+    scopeFilter,
+    showProtectionMismatchesOnly,
+    includeFilter,
+    excludeFilter,
+  } = filters;
 
   let filteredRoutes = [...routes];
 
   // Apply domain filter if specified
   if (domainFilter) {
-    filteredRoutes = applyDomainFilter(filteredRoutes, domainFilter);
+    filteredRoutes = applyDomainFilter(filteredRoutes, domainFilter, groupBy);
   }
 
   // Apply protected routes filter
@@ -106,6 +213,34 @@ function filterRoutes(
     filteredRoutes = filteredRoutes.filter((route) => !route.protected);
   }
 
+  // Apply tag filter if specified
+  if (tagFilter) {
+    const tags = Array.isArray(tagFilter) ? tagFilter : [tagFilter];
+    filteredRoutes = filteredRoutes.filter((route) => (route.metadata.tags || []).some((tag) => tags.includes(tag)));
+  }
+
+  // Apply deprecated routes filter
+  if (hideDeprecated) {
+    filteredRoutes = filteredRoutes.filter((route) => !route.metadata.deprecated);
+  }
+
+  // Apply required role filter if specified
+  if (roleFilter) {
+    const roles = Array.isArray(roleFilter) ? roleFilter : [roleFilter];
+    filteredRoutes = filteredRoutes.filter((route) => (route.protection?.roles || []).some((role) => roles.includes(role)));
+  }
+
+  // Apply required scope filter if specified
+  if (scopeFilter) {
+    const scopes = Array.isArray(scopeFilter) ? scopeFilter : [scopeFilter];
+    filteredRoutes = filteredRoutes.filter((route) => (route.protection?.scopes || []).some((scope) => scopes.includes(scope)));
+  }
+
+  // Apply protection rule mismatches filter
+  if (showProtectionMismatchesOnly) {
+    filteredRoutes = filteredRoutes.filter((route) => route.protectionMismatch);
+  }
+
   // Apply custom include filter
   if (includeFilter) {
     filteredRoutes = filteredRoutes.filter(includeFilter);
@@ -121,8 +256,9 @@ function filterRoutes(
 
 /**
  * Applies domain filtering to routes
+ * With a `groupBy` strategy, the domains are matched against the group of the routes instead of their path segments
  */
-function applyDomainFilter(routes: RouteInfo[], domainFilter: string | string[]): RouteInfo[] {
+function applyDomainFilter(routes: RouteInfo[], domainFilter: string | string[], groupBy?: GroupBy): RouteInfo[] {
   const domains = Array.isArray(domainFilter) ? domainFilter : [domainFilter];
 
   return routes.filter((route) => {
@@ -132,6 +268,10 @@ function applyDomainFilter(routes: RouteInfo[], domainFilter: string | string[])
       // Remove leading slash if present
       const normalizedDomain = domainString.startsWith("/") ? domainString.substring(1) : domainString;
 
+      if (groupBy) {
+        return getRouteGroup(route, groupBy).toLowerCase().replace(/^\//, "") === normalizedDomain;
+      }
+
       // Get route path segments
       const pathSegments = route.path.toLowerCase().split("/").filter(Boolean);
 
@@ -147,18 +287,22 @@ function applyDomainFilter(routes: RouteInfo[], domainFilter: string | string[])
 function extractRoutesFromNestedRouter(
   layer: any,
   baseRoute: string,
-  isProtectedFn?: (route: RouteInfo) => boolean,
-  protectionMiddlewareName?: string | string[]
-): RouteInfo[] {
-  let subRoutePath = "/";
-  if (layer.regexp) {
-    subRoutePath = extractBaseRoute(layer.regexp);
-  }
+  mountedMiddlewares: MountedMiddleware[],
+  protectionOptions: ProtectionOptions
+): RouterNode[] {
+  // A router mounted on several paths exposes its routes under each of them
+  return resolveMountPaths(layer).map((subRoutePath) => {
+    // Combine the base path with the sub-router path
+    const combinedPath = combinePaths(baseRoute, subRoutePath);
 
-  // Combine the base path with the sub-router path
-  const combinedPath = combinePaths(baseRoute, subRoutePath);
-
-  return extractRoutesFromRouter(layer.handle, combinedPath, isProtectedFn, protectionMiddlewareName);
+    return {
+      type: "router",
+      mountPath: combinePaths("/", subRoutePath),
+      path: combinedPath,
+      ...extractRoutesFromRouter(layer.handle, combinedPath, mountedMiddlewares, "router", protectionOptions),
+      location: getDeclaredLocation(layer),
+    };
+  });
 }
 
 /**
@@ -167,17 +311,11 @@ function extractRoutesFromNestedRouter(
 function extractRoutesFromSpecialMiddleware(
   layer: any,
   baseRoute: string,
-  isProtectedFn?: (route: RouteInfo) => boolean,
-  protectionMiddlewareName?: string | string[]
-): RouteInfo[] {
-  const subRoutePath = extractBaseRoute(layer.regexp);
-
-  // Check if this is a nested middleware with router-like structure
-  if (layer.handle.stack) {
-    return extractRoutesFromRouter(layer.handle, combinePaths(baseRoute, subRoutePath), isProtectedFn, protectionMiddlewareName);
-  }
-
-  return [];
+  mountedMiddlewares: MountedMiddleware[],
+  protectionOptions: ProtectionOptions
+): RouterNode[] {
+  // A middleware with a router-like structure is extracted as a nested router
+  return layer.handle.stack ? extractRoutesFromNestedRouter(layer, baseRoute, mountedMiddlewares, protectionOptions) : [];
 }
 
 /**
@@ -186,33 +324,54 @@ function extractRoutesFromSpecialMiddleware(
 function extractRoutesFromRouteLayer(
   layer: any,
   basePath: string,
-  isProtectedFn?: (route: RouteInfo) => boolean,
-  protectionMiddlewareName?: string | string[]
-): RouteInfo[] {
+  mountedMiddlewares: MountedMiddleware[],
+  protectionOptions: ProtectionOptions
+): RouteNode[] {
   const route = layer.route;
   if (!route) return [];
 
-  const routePath = route.path;
-  // Combine base path with route path, ensuring no double slashes
-  const fullPath = combinePaths(basePath, routePath);
-
   // Get all HTTP methods defined for this route
   const methods = Object.keys(route.methods).filter((method) => route.methods[method]);
 
-  // Extract middleware information
-  const middlewares = extractMiddlewares(route);
+  // Routes declared with an array of paths are listed once per path when instrumented
+  const routePaths = getDeclaredPaths(layer) ?? [route.path];
+  const location = getDeclaredLocation(layer);
 
-  // Process each HTTP method for this route
-  return methods.map((method) => {
-    // Determine if the route is protected
-    const isProtected = determineRouteProtection(fullPath, method, middlewares, isProtectedFn, protectionMiddlewareName);
+  return routePaths.map((routePath) => {
+    // Combine base path with route path, ensuring no double slashes
+    const fullPath = combinePaths(basePath, routePath);
 
-    // Create route info object
-    return {
-      method: method.toUpperCase(),
-      path: fullPath,
-      protected: isProtected,
-      middlewares,
-    };
+    // Keep the preceding middleware whose mount path applies to this route
+    const inheritedMiddlewares = mountedMiddlewares
+      .filter((middleware) => isPathPrefix(middleware.path, fullPath))
+      .map((middleware) => middleware.info);
+
+    // Process each HTTP method for this route
+    const routes = methods.map((method) => {
+      // A route chained with `route()` has its own middleware for each method
+      const middlewares = extractMiddlewares(route, location, method);
+      const metadata = collectRouteMetadata(inheritedMiddlewares, middlewares);
+
+      // Determine how the route is protected
+      const protection = determineRouteProtection(fullPath, method, middlewares, protectionOptions, inheritedMiddlewares);
+      const protectionRule = findProtectionRule(protectionOptions.protectionRules, fullPath, method);
+      const protectionMismatch = protectionRule && findProtectionMismatch(protectionRule, protection);
+
+      // Create route info object
+      return {
+        method: method.toUpperCase(),
+        path: fullPath,
+        protected: Boolean(protection),
+        protection,
+        protectionMismatch,
+        middlewares,
+        inheritedMiddlewares,
+        location,
+        mountPath: basePath,
+        metadata,
+      };
+    });
+
+    return { type: "route", path: fullPath, routes };
   });
 }
@@ -1,18 +1,102 @@
 import {
+  getAppRouter,
+  isExpress5Layer,
   isRouteLayer,
   isNestedRouter,
   isSpecialMiddleware,
+  isMiddlewareLayer,
+  isExpressInternalMiddleware,
+  isPathPrefix,
   extractMiddlewares,
+  describeMiddleware,
+  collectRouteMetadata,
   determineRouteProtection,
+  findProtectionMismatch,
+  findProtectionRule,
+  matchesPathPattern,
   extractBaseRoute,
+  extractLayerBaseRoute,
+  extractLayerBaseRoutes,
+  extractMatcherRegexps,
+  extractMatcherRoute,
+  extractMatcherKeys,
+  extractOptionalRoute,
+  extractParameterizedRoute,
   extractFastPathRoute,
   extractStandardRoute,
   extractFallbackRoute,
   combinePaths,
   normalizeRoutePath,
+  extractPathParams,
+  detectExpressVersion,
 } from "./extract-routes.utils";
+import { describe as describeRoute, tag } from "./describe";
+import express from "express";
+
+// Describe a route middleware with the given function name
+const namedMiddleware = (name: string) =>
+  describeMiddleware(
+    Object.defineProperty(() => {}, "name", { value: name }),
+    "route"
+  );
 
 describe("Route Layer Detection Functions", () => {
+  describe("getAppRouter", () => {
+    it("should return the Express 4 router from app._router", () => {
+      const router = { stack: [] };
+      expect(getAppRouter({ _router: router })).toBe(router);
+    });
+
+    it("should return the Express 5 router from app.router", () => {
+      const router = { stack: [] };
+      expect(getAppRouter({ router })).toBe(router);
+    });
+
+    it("should return undefined when app.router throws like in Express 4", () => {
+      const app = Object.defineProperty({}, "router", {
+        get: () => {
+          throw new Error("'app.router' is deprecated!");
+        },
+      });
+      expect(getAppRouter(app)).toBeUndefined();
+    });
+
+    it("should handle null/undefined inputs", () => {
+      expect(getAppRouter(null)).toBeUndefined();
+      expect(getAppRouter(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("detectExpressVersion", () => {
+    it("should detect the major version of Express", () => {
+      const expectedVersion = typeof (express.application as any).lazyrouter === "function" ? 4 : 5;
+
+      expect(detectExpressVersion(express())).toBe(expectedVersion);
+      expect(detectExpressVersion({ handle() {}, lazyrouter() {} })).toBe(4);
+      expect(detectExpressVersion({ handle() {}, router: {} })).toBe(5);
+    });
+
+    it("should return undefined for values that are not apps", () => {
+      expect(detectExpressVersion(undefined)).toBeUndefined();
+      expect(detectExpressVersion({})).toBeUndefined();
+    });
+  });
+
+  describe("isExpress5Layer", () => {
+    it("should return true for a layer with matchers", () => {
+      expect(isExpress5Layer({ matchers: [] })).toBe(true);
+    });
+
+    it("should return false for a layer with a regexp", () => {
+      expect(isExpress5Layer({ regexp: /^\/api/ })).toBe(false);
+    });
+
+    it("should handle null/undefined inputs", () => {
+      expect(isExpress5Layer(null)).toBe(false);
+      expect(isExpress5Layer(undefined)).toBe(false);
+    });
+  });
+
   describe("isRouteLayer", () => {
     it("should return true for a route layer", () => {
       const routeLayer = { route: {} };
@@ -87,23 +171,84 @@ describe("Route Layer Detection Functions", () => {
 });
 
 describe("Middleware Extraction Functions", () => {
+  describe("isMiddlewareLayer", () => {
+    it("should return true for a plain middleware layer", () => {
+      expect(isMiddlewareLayer({ handle: () => {}, regexp: /^\/?(?=\/|$)/i })).toBe(true);
+    });
+
+    it("should return false for route and router layers", () => {
+      expect(isMiddlewareLayer({ route: {}, handle: () => {} })).toBe(false);
+      expect(isMiddlewareLayer({ handle: Object.assign(() => {}, { stack: [] }) })).toBe(false);
+    });
+
+    it("should handle null/undefined inputs", () => {
+      expect(isMiddlewareLayer(null)).toBe(false);
+      expect(isMiddlewareLayer(undefined)).toBe(false);
+    });
+  });
+
+  describe("isExpressInternalMiddleware", () => {
+    it("should return true for the middleware Express 4 adds to every app", () => {
+      expect(isExpressInternalMiddleware({ name: "query" })).toBe(true);
+      expect(isExpressInternalMiddleware({ name: "expressInit" })).toBe(true);
+    });
+
+    it("should return false for application middleware", () => {
+      expect(isExpressInternalMiddleware({ name: "authenticate" })).toBe(false);
+      expect(isExpressInternalMiddleware(null)).toBe(false);
+    });
+  });
+
+  describe("isPathPrefix", () => {
+    it("should match the root prefix against any path", () => {
+      expect(isPathPrefix("/", "/api/users")).toBe(true);
+    });
+
+    it("should match whole path segments only", () => {
+      expect(isPathPrefix("/api", "/api")).toBe(true);
+      expect(isPathPrefix("/api", "/api/users")).toBe(true);
+      expect(isPathPrefix("/api", "/apis")).toBe(false);
+      expect(isPathPrefix("/admin", "/api/admin")).toBe(false);
+    });
+  });
+
   describe("extractMiddlewares", () => {
-    it("should extract middleware functions from route", () => {
+    it("should describe the middleware functions of a route", () => {
+      const location = { file: "/app/routes.ts", line: 3, column: 8 };
       const route = {
         stack: [{ handle: () => {} }, { handle: () => {} }],
       };
-      const middlewares = extractMiddlewares(route);
+      const middlewares = extractMiddlewares(route, location);
       expect(middlewares).toHaveLength(2);
-      expect(typeof middlewares[0]).toBe("function");
+      expect(typeof middlewares[0].handle).toBe("function");
+      expect(middlewares[0].scope).toBe("route");
+      expect(middlewares[0].location).toBe(location);
     });
 
-    it("should return the middleware object if handle not available", () => {
+    it("should keep the functions handling a method", () => {
+      const named = (name: string) => Object.defineProperty(() => {}, "name", { value: name });
+      const route = {
+        stack: [
+          { method: "get", handle: named("listUsers") },
+          { handle: named("logRequest") },
+          { method: "post", handle: named("createUser") },
+        ],
+      };
+
+      expect(extractMiddlewares(route, undefined, "get").map((middleware) => middleware.name)).toEqual(["listUsers", "logRequest"]);
+      expect(extractMiddlewares(route, undefined, "post").map((middleware) => middleware.name)).toEqual(["logRequest", "createUser"]);
+      expect(extractMiddlewares(route)).toHaveLength(3);
+    });
+
+    it("should describe stack entries without a handle as anonymous", () => {
       const route = {
         stack: [{ someKey: "someValue" }],
       };
       const middlewares = extractMiddlewares(route);
       expect(middlewares).toHaveLength(1);
-      expect(middlewares[0]).toEqual({ someKey: "someValue" });
+      expect(middlewares[0]).toEqual(
+        expect.objectContaining({ name: "<anonymous>", isAnonymous: true, arity: 0, metadata: {}, handle: { someKey: "someValue" } })
+      );
     });
 
     it("should return empty array if route has no stack", () => {
@@ -113,6 +258,150 @@ describe("Middleware Extraction Functions", () => {
     });
   });
 
+  describe("describeMiddleware", () => {
+    it("should describe a named middleware", () => {
+      function requireAuth(req: any, res: any, next: any) {
+        next();
+      }
+
+      expect(describeMiddleware(requireAuth, "app")).toEqual({
+        name: "requireAuth",
+        isAnonymous: false,
+        isBound: false,
+        isAsync: false,
+        arity: 3,
+        isErrorHandler: false,
+        scope: "app",
+        metadata: {},
+        location: undefined,
+        handle: requireAuth,
+      });
+    });
+
+    it("should flag anonymous, bound and async functions", () => {
+      const [anonymous] = [() => {}];
+      const bound = function checkRole(this: any) {}.bind({});
+      const asyncHandler = async function loadUser() {};
+
+      expect(describeMiddleware(anonymous, "route")).toEqual(expect.objectContaining({ name: "<anonymous>", isAnonymous: true }));
+      expect(describeMiddleware(bound, "route")).toEqual(expect.objectContaining({ name: "checkRole", isBound: true, isAnonymous: false }));
+      expect(describeMiddleware(asyncHandler, "route")).toEqual(expect.objectContaining({ name: "loadUser", isAsync: true }));
+    });
+
+    it("should flag error handlers", () => {
+      function handleErrors(err: any, req: any, res: any, next: any) {
+        next(err);
+      }
+
+      expect(describeMiddleware(handleErrors, "router")).toEqual(expect.objectContaining({ arity: 4, isErrorHandler: true }));
+    });
+
+    it("should describe the handler wrapped by describe", () => {
+      const loadUser = describeRoute({ summary: "Load the user" }, async function loadUser(req: any, res: any) {
+        res.send("User");
+      });
+
+      expect(describeMiddleware(loadUser, "route")).toEqual(expect.objectContaining({ name: "loadUser", arity: 2, isAsync: true }));
+    });
+
+    it("should collect properties attached to the function as metadata", () => {
+      const rateLimit = Object.assign(() => {}, { limit: 100, window: "1m" });
+
+      expect(describeMiddleware(rateLimit, "route").metadata).toEqual({ limit: 100, window: "1m" });
+    });
+
+    it("should include metadata attached with describe", () => {
+      function requireAdmin(req: any, res: any, next: any) {
+        next();
+      }
+
+      expect(describeMiddleware(describeRoute({ roles: ["admin"] }, requireAdmin), "route")).toEqual(
+        expect.objectContaining({ name: "requireAdmin", metadata: { roles: ["admin"] } })
+      );
+    });
+  });
+
+  describe("collectRouteMetadata", () => {
+    it("should merge metadata of the inherited and route middleware in order", () => {
+      const inherited = [describeMiddleware(tag("admin"), "app"), describeMiddleware(describeRoute({ owner: "platform" }), "router")];
+      const middlewares = [describeMiddleware(describeRoute({ owner: "billing", tags: ["invoices"] }), "route")];
+
+      expect(collectRouteMetadata(inherited, middlewares)).toEqual({ tags: ["admin", "invoices"], owner: "billing" });
+    });
+
+    it("should return empty metadata when no middleware is described", () => {
+      expect(collectRouteMetadata([namedMiddleware("logger")], [])).toEqual({});
+    });
+  });
+
+  describe("matchesPathPattern", () => {
+    it("should match literal segments exactly", () => {
+      expect(matchesPathPattern("/health", "/health")).toBe(true);
+      expect(matchesPathPattern("/health", "/health/live")).toBe(false);
+      expect(matchesPathPattern("/users/me", "/users/:id")).toBe(false);
+    });
+
+    it("should match one segment with * and :param", () => {
+      expect(matchesPathPattern("/users/*", "/users/:id")).toBe(true);
+      expect(matchesPathPattern("/users/:userId", "/users/me")).toBe(true);
+      expect(matchesPathPattern("/users/*", "/users/1/posts")).toBe(false);
+      expect(matchesPathPattern("/files/*.json", "/files/report.json")).toBe(true);
+      expect(matchesPathPattern("/files/*.json", "/files/report.csv")).toBe(false);
+    });
+
+    it("should match any number of segments with **", () => {
+      expect(matchesPathPattern("/api/admin/**", "/api/admin")).toBe(true);
+      expect(matchesPathPattern("/api/admin/**", "/api/admin/users/:id")).toBe(true);
+      expect(matchesPathPattern("/api/**/export", "/api/users/1/export")).toBe(true);
+      expect(matchesPathPattern("/api/**/export", "/api/users/1")).toBe(false);
+      expect(matchesPathPattern("/**", "/")).toBe(true);
+    });
+  });
+
+  describe("findProtectionRule", () => {
+    const rules = [
+      { path: "/health", methods: "GET", protected: false },
+      { path: "/api/admin/**", methods: ["post", "DELETE"], protected: true },
+      { path: "/**", protected: true },
+    ];
+
+    it("should return the first rule matching the path and method", () => {
+      expect(findProtectionRule(rules, "/health", "get")).toBe(rules[0]);
+      expect(findProtectionRule(rules, "/health", "post")).toBe(rules[2]);
+      expect(findProtectionRule(rules, "/api/admin/users", "delete")).toBe(rules[1]);
+    });
+
+    it("should return undefined without matching rules", () => {
+      expect(findProtectionRule(undefined, "/health", "get")).toBeUndefined();
+      expect(findProtectionRule(rules.slice(0, 2), "/api/users", "get")).toBeUndefined();
+    });
+  });
+
+  describe("findProtectionMismatch", () => {
+    const bearer = { scheme: "bearer", roles: [], scopes: [], sources: ["requireAuth"] };
+
+    it("should flag routes protected differently from the rule", () => {
+      const publicRule = { path: "/health", protected: false };
+      const protectedRule = { path: "/api/**", protected: true, scheme: "jwt", roles: ["admin"], scopes: ["api"] };
+
+      expect(findProtectionMismatch(publicRule, bearer)).toEqual({
+        rule: publicRule,
+        issues: ["expected public, protected by requireAuth"],
+      });
+      expect(findProtectionMismatch(protectedRule, undefined)?.issues).toEqual(["expected protected, no protection detected"]);
+      expect(findProtectionMismatch(protectedRule, bearer)?.issues).toEqual([
+        "expected scheme jwt, found bearer",
+        "missing roles admin",
+        "missing scopes api",
+      ]);
+    });
+
+    it("should return undefined when the detected protection satisfies the rule", () => {
+      expect(findProtectionMismatch({ path: "/api/**", protected: true }, bearer)).toBeUndefined();
+      expect(findProtectionMismatch({ path: "/health", protected: false }, undefined)).toBeUndefined();
+    });
+  });
+
   describe("determineRouteProtection", () => {
     it("should use custom isProtected function when provided", () => {
       const mockFn = jest.fn((routeInfo) => {
@@ -120,37 +409,132 @@ describe("Middleware Extraction Functions", () => {
         return true;
       });
       console.log("About to call determineRouteProtection with method 'get'");
-      const result = determineRouteProtection("/api/users", "get", [], mockFn);
+      const result = determineRouteProtection("/api/users", "get", [], { isProtected: mockFn });
       console.log("Result:", result);
 
-      expect(result).toBe(true);
+      expect(result).toEqual({ scheme: "custom", roles: [], scopes: [], sources: [] });
       expect(mockFn).toHaveBeenCalledWith({
         path: "/api/users",
         method: "GET",
         middlewares: [],
+        inheritedMiddlewares: [],
+        metadata: {},
         protected: false,
       });
     });
 
+    it("should check inherited middleware for the protection middleware name", () => {
+      const middlewares = [namedMiddleware("validator")];
+      const inheritedMiddlewares = [namedMiddleware("logger"), namedMiddleware("requireAuth")];
+
+      expect(
+        determineRouteProtection("/api/users", "get", middlewares, { protectionMiddlewareName: "requireAuth" }, inheritedMiddlewares)
+      ).toEqual(expect.objectContaining({ sources: ["requireAuth"] }));
+      expect(determineRouteProtection("/api/users", "get", middlewares, { protectionMiddlewareName: "requireAuth" })).toBeUndefined();
+    });
+
     it("should check for specific middleware name when provided", () => {
-      const middlewares = [{ name: "logger" }, { name: "requireAuth" }, { name: "validator" }];
+      const middlewares = ["logger", "requireAuth", "validator"].map(namedMiddleware);
 
       // Should return true when middleware with name exists
-      expect(determineRouteProtection("/api/users", "get", middlewares, undefined, "requireAuth")).toBe(true);
+      expect(determineRouteProtection("/api/users", "get", middlewares, { protectionMiddlewareName: "requireAuth" })).toEqual({
+        scheme: "auth",
+        roles: [],
+        scopes: [],
+        sources: ["requireAuth"],
+      });
 
       // Should return false when middleware with name doesn't exist
-      expect(determineRouteProtection("/api/users", "get", middlewares, undefined, "notFound")).toBe(false);
+      expect(determineRouteProtection("/api/users", "get", middlewares, { protectionMiddlewareName: "notFound" })).toBeUndefined();
     });
 
     it("should consider routes unprotected by default", () => {
       const middlewares = [
-        { name: "logger" },
-        { name: "validator" },
-        { name: "ensureAuthenticated" }, // This would previously trigger protection
+        namedMiddleware("logger"),
+        namedMiddleware("validator"),
+        namedMiddleware("ensureAuthenticated"), // This would previously trigger protection
       ];
 
       // Without explicit configuration, routes are unprotected
-      expect(determineRouteProtection("/api/users", "get", middlewares)).toBe(false);
+      expect(determineRouteProtection("/api/users", "get", middlewares)).toBeUndefined();
+    });
+
+    it("should read the scheme, roles and scopes of configured protection middleware", () => {
+      const requireRole = describeMiddleware(
+        Object.assign(function requireRole() {}, { roles: ["admin"] }),
+        "route"
+      );
+      const checkJwt = describeMiddleware(
+        Object.defineProperty(() => {}, "name", { value: "checkJwt" }),
+        "app"
+      );
+
+      const protection = determineRouteProtection(
+        "/api/users",
+        "get",
+        [requireRole],
+        {
+          protectionMiddleware: [
+            { name: "checkJwt", scheme: "bearer", scopes: ["users:read"] },
+            { name: /^require/, scopes: (middleware) => [`${middleware.name}:write`] },
+          ],
+        },
+        [checkJwt]
+      );
+
+      expect(protection).toEqual({
+        scheme: "bearer",
+        roles: ["admin"],
+        scopes: ["users:read", "requireRole:write"],
+        sources: ["checkJwt", "requireRole"],
+      });
+    });
+
+    it("should detect protection from middleware described with an auth scheme", () => {
+      const middlewares = [
+        describeMiddleware(describeRoute({ auth: "session", roles: ["editor"] }), "router"),
+        describeMiddleware(describeRoute({ roles: ["admin"] }), "route"),
+      ];
+
+      expect(determineRouteProtection("/api/posts", "post", middlewares)).toEqual({
+        scheme: "session",
+        roles: ["editor", "admin"],
+        scopes: [],
+        sources: ["describedMiddleware"],
+      });
+    });
+
+    it("should keep the detected protection of routes matching a protection rule", () => {
+      const options = {
+        protectionMiddlewareName: "requireAuth",
+        protectionRules: [
+          { path: "/health", protected: false },
+          { path: "/api/admin/**", protected: true, roles: ["admin"] },
+        ],
+      };
+
+      expect(determineRouteProtection("/health", "get", [namedMiddleware("requireAuth")], options)).toEqual({
+        scheme: "auth",
+        roles: [],
+        scopes: [],
+        sources: ["requireAuth"],
+      });
+      expect(determineRouteProtection("/api/admin/users", "get", [], options)).toBeUndefined();
+      expect(determineRouteProtection("/api/admin/users", "get", [namedMiddleware("requireAuth")], options)).toEqual(
+        expect.objectContaining({ roles: [], sources: ["requireAuth"] })
+      );
+    });
+
+    it("should include the roles and scopes of the route metadata when isProtected decides", () => {
+      const middlewares = [describeMiddleware(describeRoute({ roles: ["admin"], scopes: ["posts:write"] }), "route")];
+
+      expect(determineRouteProtection("/api/posts", "post", middlewares, { isProtected: () => true })).toEqual({
+        scheme: "custom",
+        roles: ["admin"],
+        scopes: ["posts:write"],
+        sources: [],
+      });
+      expect(determineRouteProtection("/api/posts", "post", middlewares, { isProtected: () => false })).toBeUndefined();
     });
   });
 });
@@ -189,6 +573,222 @@ describe("Path Extraction Functions", () => {
     });
   });
 
+  describe("extractLayerBaseRoutes", () => {
+    it("should split the joined regexps of Express 4 layers mounted on an array of paths", () => {
+      const layer = {
+        regexp: /^\/v1\/?(?=\/|$)|^\/v2(?:\/([^/]+?))\/?(?=\/|$)/i,
+        keys: [{ name: "tenant", optional: false }],
+      };
+
+      expect(extractLayerBaseRoutes(layer)).toEqual(["/v1/", "/v2/:tenant"]);
+    });
+
+    it("should keep regexps with alternatives that are not mount paths whole", () => {
+      expect(extractLayerBaseRoutes({ regexp: /^\/(?:a|b)\/?(?=\/|$)|^\/c/ })).toHaveLength(1);
+    });
+
+    it("should list a path per matcher of Express 5 layers", () => {
+      const regexps = [/^(?:\/v1)(?:\/$)?(?=\/|$)/i, /^(?:\/v2)(?:\/$)?(?=\/|$)/i];
+      const layer = { matchers: regexps.map((regexp) => (path: string) => regexp.exec(path)) };
+
+      expect(extractLayerBaseRoutes(layer)).toEqual(["/v1", "/v2"]);
+    });
+  });
+
+  describe("extractLayerBaseRoute", () => {
+    it("should use the regexp of Express 4 layers", () => {
+      expect(extractLayerBaseRoute({ regexp: /^\/api\/?(?=\/|$)/i })).toBe("/api/");
+      expect(extractLayerBaseRoute({})).toBe("/");
+    });
+
+    it("should use the matcher regexps of Express 5 layers", () => {
+      const regexp = /^(?:\/api\/users)(?:\/$)?(?=\/|$)/i;
+      const layer = { matchers: [(path: string) => regexp.exec(path)] };
+
+      expect(extractLayerBaseRoute(layer)).toBe("/api/users");
+    });
+
+    it("should fall back to regexp parsing for Express 5 layers mounted with a regexp", () => {
+      const regexp = /^\/legacy/;
+      const layer = { matchers: [(path: string) => regexp.exec(path)] };
+
+      expect(extractLayerBaseRoute(layer)).toContain("/legacy");
+    });
+
+    it("should keep named parameters of Express 4 mount paths", () => {
+      const layer = {
+        regexp: /^\/orgs(?:\/([^/]+?))\/projects\/?(?=\/|$)/i,
+        keys: [{ name: "orgId", optional: false }],
+      };
+
+      expect(extractLayerBaseRoute(layer)).toBe("/orgs/:orgId/projects");
+    });
+
+    it("should keep named parameters of Express 5 mount paths", () => {
+      const regexp = new RegExp("^(?:\\/orgs\\/([^\\/]+)\\/projects)(?:\\/$)?(?=\\/|$)", "i");
+      const layer = {
+        matchers: [
+          (path: string) => {
+            const match = regexp.exec(path);
+            return match ? { path: match[0], params: { orgId: match[1] } } : false;
+          },
+        ],
+      };
+
+      expect(extractLayerBaseRoute(layer)).toBe("/orgs/:orgId/projects");
+    });
+
+    it("should return root for Express 5 layers without matchers", () => {
+      expect(extractLayerBaseRoute({ matchers: [] })).toBe("/");
+    });
+  });
+
+  describe("extractMatcherRegexps", () => {
+    it("should capture the first regexp run by each matcher", () => {
+      const first = /^(?:\/a)(?:\/$)?$/i;
+      const second = /^(?:\/b)(?:\/$)?$/i;
+      const layer = {
+        matchers: [(path: string) => first.exec(path) && /unrelated/.exec(path), (path: string) => second.exec(path)],
+      };
+
+      expect(extractMatcherRegexps(layer)).toEqual([first, second]);
+    });
+
+    it("should restore RegExp#exec when a matcher throws", () => {
+      const originalExec = RegExp.prototype.exec;
+      const layer = {
+        matchers: [
+          () => {
+            throw new Error("Broken matcher");
+          },
+        ],
+      };
+
+      expect(extractMatcherRegexps(layer)).toEqual([]);
+      expect(RegExp.prototype.exec).toBe(originalExec);
+    });
+  });
+
+  describe("extractParameterizedRoute", () => {
+    it("should rebuild Express 4 mount paths with named parameters", () => {
+      const tests = [
+        { source: "^\\/orgs(?:\\/([^/]+?))\\/projects\\/?(?=\\/|$)", keys: ["orgId"], expected: "/orgs/:orgId/projects" },
+        { source: "^(?:\\/([^/]+?))\\/?(?=\\/|$)", keys: ["tenant"], expected: "/:tenant" },
+        { source: "^\\/opt(?:\\/([^/]+?))?\\/?(?=\\/|$)", keys: ["param"], expected: "/opt/:param?" },
+        { source: "^\\/a(?:\\/([^/]+?))-(?:((?:(?!\\/|-).)+?))\\/?(?=\\/|$)", keys: ["from", "to"], expected: "/a/:from-:to" },
+      ];
+
+      tests.forEach(({ source, keys, expected }) => {
+        expect(
+          extractParameterizedRoute(
+            source,
+            keys.map((name) => ({ name }))
+          )
+        ).toBe(expected);
+      });
+    });
+
+    it("should keep regex constraints of parameters", () => {
+      expect(extractParameterizedRoute("^\\/users(?:\\/(\\d+))\\/?(?=\\/|$)", [{ name: "id" }])).toBe("/users/:id(\\d+)");
+      expect(extractParameterizedRoute("^\\/files(?:\\/((.*).pdf))\\/?(?=\\/|$)", [{ name: "file" }, { name: 0 }])).toBe(
+        "/files/:file((.*).pdf)"
+      );
+    });
+
+    it("should rebuild Express 5 mount paths including wildcards", () => {
+      const source = "^(?:\\/orgs\\/([^\\/]+)\\/files\\/([^]+))(?:\\/$)?(?=\\/|$)";
+      expect(extractParameterizedRoute(source, [{ name: "orgId" }, { name: "path" }])).toBe("/orgs/:orgId/files/*path");
+    });
+
+    it("should use the first alternative of Express 5 optional segments", () => {
+      const source = "^(?:\\/opt\\/([^\\/]+)|\\/opt)(?:\\/$)?(?=\\/|$)";
+      expect(extractParameterizedRoute(source, [{ name: "param" }])).toBe("/opt/:param");
+    });
+
+    it("should return null without named parameters", () => {
+      expect(extractParameterizedRoute("^\\/re\\/(\\d+)", [{ name: 0 }])).toBeNull();
+      expect(extractParameterizedRoute("^\\/api\\/?(?=\\/|$)", [])).toBeNull();
+      expect(extractParameterizedRoute("^\\/api\\/?(?=\\/|$)", undefined)).toBeNull();
+    });
+
+    it("should return null for patterns that cannot be mapped back to a path", () => {
+      expect(extractParameterizedRoute("^\\/v\\d+(?:\\/([^/]+?))\\/?(?=\\/|$)", [{ name: "id" }])).toBeNull();
+      expect(extractParameterizedRoute("^\\/items*(?:\\/([^/]+?))\\/?(?=\\/|$)", [{ name: "id" }])).toBeNull();
+      expect(extractParameterizedRoute("^(?:\\/([^/]+?))(?:\\/([^/]+?))", [{ name: "id" }])).toBeNull();
+      expect(extractParameterizedRoute("^\\/broken(?:\\/([^/]+?)", [{ name: "id" }])).toBeNull();
+    });
+  });
+
+  describe("extractMatcherKeys", () => {
+    it("should map capturing groups to the parameter names returned by the matcher", () => {
+      const regexp = new RegExp("^(?:\\/a\\/([^\\/]+)-([^\\/-]+|-)\\/files\\/([^]+))(?:\\/$)?(?=\\/|$)", "i");
+      const layer = {
+        matchers: [
+          (path: string) => {
+            const match = regexp.exec(path);
+            return match ? { path: match[0], params: { from: match[1], to: match[2], rest: match[3].split("/") } } : false;
+          },
+        ],
+      };
+
+      expect(extractMatcherKeys(layer, regexp.source)).toEqual([{ name: "from" }, { name: "to" }, { name: "rest" }]);
+    });
+
+    it("should fall back to indexes when the sample path does not match", () => {
+      const source = "^(?:\\/orgs\\/([^\\/]+))(?:\\/$)?(?=\\/|$)";
+      const layer = { matchers: [() => false] };
+
+      expect(extractMatcherKeys(layer, source)).toEqual([]);
+      expect(extractMatcherKeys({ matchers: [() => ({ params: {} })] }, source)).toEqual([{ name: 0 }]);
+    });
+
+    it("should return no keys for other patterns", () => {
+      expect(extractMatcherKeys({ matchers: [] }, "^\\/re\\/(\\d+)")).toEqual([]);
+      expect(extractMatcherKeys({ matchers: [] }, "^(?:\\/v\\d+)(?:\\/$)?(?=\\/|$)")).toEqual([]);
+    });
+  });
+
+  describe("extractOptionalRoute", () => {
+    // Nested optional groups, as path-to-regexp v8 expands /n{/:a{/:b}}
+    const regexp = new RegExp("^(?:\\/n\\/([^\\/]+)\\/([^\\/]+)|\\/n\\/([^\\/]+)|\\/n)(?:\\/$)?(?=\\/|$)", "i");
+    const layer = {
+      matchers: [
+        (path: string) => {
+          const match = regexp.exec(path);
+          if (!match) return false;
+          return { path: match[0], params: match[1] ? { a: match[1], b: match[2] } : match[3] ? { a: match[3] } : {} };
+        },
+      ],
+    };
+
+    it("should rebuild optional groups from the alternatives of the regexp", () => {
+      expect(extractOptionalRoute(layer, regexp.source)).toBe("/n{/:a{/:b}}");
+      expect(extractOptionalRoute({ matchers: [() => ({ params: {} })] }, "^(?:\\/a\\/b\\/c|\\/a\\/c)(?:\\/$)?(?=\\/|$)")).toBe("/a{/b}/c");
+    });
+
+    it("should return null for paths without optional groups", () => {
+      expect(extractOptionalRoute(layer, "^(?:\\/files)(?:\\/$)?(?=\\/|$)")).toBeNull();
+      expect(extractOptionalRoute(layer, "^\\/re\\/(\\d+)")).toBeNull();
+      expect(extractOptionalRoute({ matchers: [() => false] }, regexp.source)).toBeNull();
+      expect(extractOptionalRoute({ matchers: [() => ({ params: {} })] }, "^(?:\\/a|\\/b)(?:\\/$)?(?=\\/|$)")).toBeNull();
+    });
+  });
+
+  describe("extractMatcherRoute", () => {
+    it("should extract paths from path-to-regexp v8 patterns", () => {
+      expect(extractMatcherRoute("^(?:\\/api\\/users)(?:\\/$)?(?=\\/|$)")).toBe("/api/users");
+      expect(extractMatcherRoute("^(?:\\/api\\/v1\\.0)(?:\\/$)?$")).toBe("/api/v1.0");
+    });
+
+    it("should remove capturing groups from the path", () => {
+      expect(extractMatcherRoute("^(?:\\/orgs\\/([^\\/]+)\\/projects)(?:\\/$)?(?=\\/|$)")).toBe("/orgs/projects");
+    });
+
+    it("should return null for other patterns", () => {
+      expect(extractMatcherRoute("^\\/api\\/?(?=\\/|$)")).toBeNull();
+    });
+  });
+
   describe("extractFastPathRoute", () => {
     it("should correctly extract routes from Express fast-path patterns", () => {
       // Tests for fast path extraction
@@ -333,4 +933,39 @@ describe("Path Extraction Functions", () => {
       expect(result).toContain(":param");
     });
   });
+
+  describe("extractPathParams", () => {
+    it("should list named parameters", () => {
+      expect(extractPathParams("/orgs/:orgId/users/:userId")).toEqual([
+        { name: "orgId", optional: false, wildcard: false },
+        { name: "userId", optional: false, wildcard: false },
+      ]);
+      expect(extractPathParams("/health")).toEqual([]);
+    });
+
+    it("should support Express 4 modifiers, patterns and wildcards", () => {
+      expect(extractPathParams("/users/:id(\\d+)/:format?")).toEqual([
+        { name: "id", optional: false, wildcard: false, pattern: "\\d+" },
+        { name: "format", optional: true, wildcard: false },
+      ]);
+      expect(extractPathParams("/files/:path*")).toEqual([{ name: "path", optional: true, wildcard: true }]);
+      expect(extractPathParams("/files/:path+")).toEqual([{ name: "path", optional: false, wildcard: true }]);
+      expect(extractPathParams("/assets/*/*")).toEqual([
+        { name: "0", optional: false, wildcard: true },
+        { name: "1", optional: false, wildcard: true },
+      ]);
+    });
+
+    it("should support Express 5 wildcards and optional groups", () => {
+      expect(extractPathParams("/files/*path")).toEqual([{ name: "path", optional: false, wildcard: true }]);
+      expect(extractPathParams("/users{/:id}/posts{/*rest}")).toEqual([
+        { name: "id", optional: true, wildcard: false },
+        { name: "rest", optional: true, wildcard: true },
+      ]);
+    });
+
+    it("should ignore colons that do not start a parameter", () => {
+      expect(extractPathParams("/time/12:30")).toEqual([]);
+    });
+  });
 });
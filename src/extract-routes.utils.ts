@@ -1,4 +1,77 @@
-import { RouteInfo } from "./types";
+import {
+  RouteInfo,
+  RouteMetadata,
+  RouteProtection,
+  ProtectionMiddleware,
+  ProtectionRule,
+  ProtectionMismatch,
+  RouteParam,
+  DisplayRoutesConfig,
+  MiddlewareInfo,
+  MiddlewareScope,
+  SourceLocation,
+} from "./types";
+import { getDescribedHandler, getRouteMetadata, mergeRouteMetadata } from "./describe";
+
+/**
+ * A path parameter captured by a layer regexp, as listed in Express 4 `layer.keys`
+ */
+interface ParamKey {
+  name: string | number;
+}
+
+/**
+ * Anchors path-to-regexp v8 puts around Express 5 patterns: ^(?:...)(?:\/$)?(?=\/|$)
+ */
+const MATCHER_PATTERN = /^\^\(\?:(.*)\)\(\?:\\\/\$\)\?(?:\(\?=\\\/\|\$\)|\$)$/;
+
+/**
+ * Parameter patterns Express generates for a plain `:name` segment
+ */
+const DEFAULT_PARAM_PATTERNS = ["[^/]+?", "[^\\/]+?", "[^\\/]+"];
+
+/**
+ * Parameter patterns generated for a `:name` segment that follows a literal, as in `/:from-:to`
+ */
+const SEPARATED_PARAM_PATTERNS = [/^\(\?:\(\?!\\\/\|[^)]+\)\.\)\+\?$/, /^\[\^\\\/[^\]]+\]\+(?:\|.+)?$/];
+
+/**
+ * Parameter patterns path-to-regexp v8 generates for a `*name` wildcard
+ */
+const WILDCARD_PARAM_PATTERNS = ["[^]+", "[\\s\\S]+"];
+
+/**
+ * Get the root router of an Express application
+ * Express 4 exposes it as `app._router`, Express 5 as `app.router`
+ */
+export function getAppRouter(app: any): any {
+  if (!app) return undefined;
+  if (app._router) return app._router;
+
+  try {
+    // Express 4 defines a throwing `app.router` getter, so guard the access
+    return app.router;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the major version of Express an application was created with
+ * Express 4 applications create their router lazily with `app.lazyrouter()`, which Express 5 removed
+ */
+export function detectExpressVersion(app: any): number | undefined {
+  if (!app || typeof app.handle !== "function") return undefined;
+
+  return typeof app.lazyrouter === "function" ? 4 : 5;
+}
+
+/**
+ * Checks if a layer was created by the Express 5 router (path-to-regexp v8)
+ */
+export function isExpress5Layer(layer: any): boolean {
+  return layer && Array.isArray(layer.matchers) ? true : false;
+}
 
 /**
  * Checks if a layer is a route definition
@@ -18,49 +91,239 @@ export function isNestedRouter(layer: any): boolean {
  * Checks if a layer is a special middleware that might contain routes
  */
 export function isSpecialMiddleware(layer: any): boolean {
-  return layer && layer.handle && typeof layer.handle === "function" && layer.regexp ? true : false;
+  return layer && layer.handle && typeof layer.handle === "function" && (layer.regexp || isExpress5Layer(layer)) ? true : false;
+}
+
+/**
+ * Checks if a layer is a plain middleware (registered with `use` and not containing routes)
+ */
+export function isMiddlewareLayer(layer: any): boolean {
+  return layer && !layer.route && typeof layer.handle === "function" && !layer.handle.stack ? true : false;
+}
+
+/**
+ * Checks if a layer is one of the middleware Express 4 adds to every app
+ */
+export function isExpressInternalMiddleware(layer: any): boolean {
+  return layer && (layer.name === "query" || layer.name === "expressInit") ? true : false;
+}
+
+/**
+ * Checks if a middleware mount path applies to a route path
+ * @example isPathPrefix("/api", "/api/users") => true
+ */
+export function isPathPrefix(prefix: string, path: string): boolean {
+  return prefix === "/" || path === prefix || path.startsWith(prefix + "/");
 }
 
 /**
  * Extract middleware functions from a route
+ * With a method, only the functions handling it are kept: the ones registered for it and with `route.all`
+ * @example app.route("/users").get(list).post(requireAuth, create) => get: [list], post: [requireAuth, create]
  */
-export function extractMiddlewares(route: any): any[] {
-  return (route.stack || []).map((s: any) => s.handle || s);
+export function extractMiddlewares(route: any, location?: SourceLocation, method?: string): MiddlewareInfo[] {
+  return (route.stack || [])
+    .filter((s: any) => !method || !s.method || s.method === method)
+    .map((s: any) => describeMiddleware(s.handle || s, "route", location));
 }
 
 /**
- * Determine if a route is protected based on middleware or custom function
+ * Describe a middleware function without exposing callers to the function object
+ */
+export function describeMiddleware(handle: any, scope: MiddlewareScope, location?: SourceLocation): MiddlewareInfo {
+  const isFunction = typeof handle === "function";
+  const rawName: string = isFunction ? handle.name : "";
+  const isBound = rawName.startsWith("bound ");
+  const name = isBound ? rawName.slice("bound ".length) : rawName;
+  const arity = isFunction ? handle.length : 0;
+
+  return {
+    name: name || "<anonymous>",
+    isAnonymous: !name,
+    isBound,
+    isAsync: isFunction && getDescribedHandler(handle).constructor?.name === "AsyncFunction",
+    arity,
+    isErrorHandler: arity === 4,
+    scope,
+    metadata: isFunction ? { ...handle, ...getRouteMetadata(handle) } : {},
+    location,
+    handle,
+  };
+}
+
+/**
+ * Collect the metadata attached with `describe` or `tag` along a route's full middleware chain
+ */
+export function collectRouteMetadata(inheritedMiddlewares: MiddlewareInfo[], middlewares: MiddlewareInfo[]): RouteMetadata {
+  return mergeRouteMetadata([...inheritedMiddlewares, ...middlewares].map((middleware) => getRouteMetadata(middleware.handle)));
+}
+
+/**
+ * Options used to detect how routes are protected
+ */
+export type ProtectionOptions = Pick<
+  DisplayRoutesConfig,
+  "isProtected" | "protectionMiddlewareName" | "protectionMiddleware" | "protectionRules"
+>;
+
+/**
+ * Compare the protection detected on a route with the protection rule matching it
+ * Returns undefined when the detected protection satisfies the rule
+ */
+export function findProtectionMismatch(rule: ProtectionRule, detected: RouteProtection | undefined): ProtectionMismatch | undefined {
+  const issues: string[] = [];
+
+  if (!rule.protected) {
+    if (detected) issues.push(`expected public, protected by ${detected.sources.join(", ") || detected.scheme}`);
+  } else if (!detected) {
+    issues.push("expected protected, no protection detected");
+  } else {
+    const missingRoles = (rule.roles || []).filter((role) => !detected.roles.includes(role));
+    const missingScopes = (rule.scopes || []).filter((scope) => !detected.scopes.includes(scope));
+
+    if (rule.scheme && rule.scheme !== detected.scheme) issues.push(`expected scheme ${rule.scheme}, found ${detected.scheme}`);
+    if (missingRoles.length) issues.push(`missing roles ${missingRoles.join(", ")}`);
+    if (missingScopes.length) issues.push(`missing scopes ${missingScopes.join(", ")}`);
+  }
+
+  return issues.length ? { rule, issues } : undefined;
+}
+
+/**
+ * Find the first protection rule matching a route
+ */
+export function findProtectionRule(rules: ProtectionRule[] | undefined, path: string, method: string): ProtectionRule | undefined {
+  return (rules || []).find((rule) => {
+    const methods = ([] as string[]).concat(rule.methods ?? "*");
+    const matchesMethod = methods.some((ruleMethod) => ruleMethod === "*" || ruleMethod.toUpperCase() === method.toUpperCase());
+
+    return matchesMethod && matchesPathPattern(rule.path, path);
+  });
+}
+
+/**
+ * Check if a route path matches a protection rule pattern
+ * - `**` matches any number of segments, including none
+ * - `*` matches one segment, or part of it when combined with other characters (`*.json`)
+ * - `:name` matches one segment, including route parameters
+ * @example matchesPathPattern("/api/admin/**", "/api/admin/users/:id") => true
+ */
+export function matchesPathPattern(pattern: string, path: string): boolean {
+  return matchPathSegments(pattern.split("/").filter(Boolean), path.split("/").filter(Boolean));
+}
+
+/**
+ * Match path segments against pattern segments, trying every length for `**`
+ */
+function matchPathSegments(patternSegments: string[], pathSegments: string[]): boolean {
+  if (patternSegments.length === 0) return pathSegments.length === 0;
+
+  const [patternSegment, ...remainingPattern] = patternSegments;
+
+  if (patternSegment === "**") {
+    return (
+      pathSegments.some((_, index) => matchPathSegments(remainingPattern, pathSegments.slice(index))) ||
+      matchPathSegments(remainingPattern, [])
+    );
+  }
+
+  if (pathSegments.length === 0) return false;
+
+  return matchPathSegment(patternSegment, pathSegments[0]) && matchPathSegments(remainingPattern, pathSegments.slice(1));
+}
+
+/**
+ * Match a single path segment against a pattern segment
+ */
+function matchPathSegment(patternSegment: string, pathSegment: string): boolean {
+  if (patternSegment === "*" || patternSegment.startsWith(":")) return true;
+  if (!patternSegment.includes("*")) return patternSegment === pathSegment;
+
+  const source = patternSegment
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(pathSegment);
+}
+
+/**
+ * Determine how a route is protected based on middleware, metadata or custom function
+ * Protection rules do not change what is detected, compare it with the matching rule with `findProtectionMismatch`
+ * Returns undefined when the route is not protected
  */
 export function determineRouteProtection(
   path: string,
   method: string,
-  middlewares: any[],
-  isProtectedFn?: (route: RouteInfo) => boolean,
-  protectionMiddlewareName?: string | string[]
-): boolean {
+  middlewares: MiddlewareInfo[],
+  options: ProtectionOptions = {},
+  inheritedMiddlewares: MiddlewareInfo[] = []
+): RouteProtection | undefined {
+  const { isProtected: isProtectedFn, protectionMiddlewareName, protectionMiddleware = [] } = options;
+  const metadata = collectRouteMetadata(inheritedMiddlewares, middlewares);
+
   // If custom isProtected function is provided, use it
   if (isProtectedFn) {
     const routeInfo: RouteInfo = {
       path,
       method: method.toUpperCase(),
       middlewares,
+      inheritedMiddlewares,
+      metadata,
       protected: false, // Default, will be determined by the function
     };
-    return isProtectedFn(routeInfo);
+    return isProtectedFn(routeInfo)
+      ? { scheme: "custom", roles: metadata.roles || [], scopes: metadata.scopes || [], sources: [] }
+      : undefined;
   }
 
-  // If protectionMiddlewareName is provided, check for it in middleware stack
-  if (protectionMiddlewareName) {
-    const protectionMiddlewareNames = Array.isArray(protectionMiddlewareName) ? protectionMiddlewareName : [protectionMiddlewareName];
+  // Plain protection middleware names are rules without scheme, roles or scopes
+  const protectionMiddlewareNames = ([] as string[]).concat(protectionMiddlewareName ?? []);
+  const rules: ProtectionMiddleware[] = [...protectionMiddlewareNames.map((name) => ({ name })), ...protectionMiddleware];
 
-    return middlewares.some((middleware) => {
-      const middlewareName = middleware.name || (typeof middleware === "function" ? middleware.name : "");
-      return protectionMiddlewareNames.some((name) => middlewareName === name);
-    });
-  }
+  // Find the middleware enforcing protection in the full chain
+  const guards = [...inheritedMiddlewares, ...middlewares].flatMap((middleware) => {
+    const rule = rules.find((candidate) =>
+      typeof candidate.name === "string" ? candidate.name === middleware.name : candidate.name.test(middleware.name)
+    );
+    const describedScheme = typeof middleware.metadata.auth === "string" ? middleware.metadata.auth : undefined;
 
-  // Default to unprotected if no detection method provided
-  return false;
+    if (!rule && !describedScheme) return [];
+
+    return [
+      {
+        name: middleware.name,
+        scheme: rule?.scheme ?? describedScheme,
+        roles: resolveProtectionRequirement(rule?.roles, middleware, "roles"),
+        scopes: resolveProtectionRequirement(rule?.scopes, middleware, "scopes"),
+      },
+    ];
+  });
+
+  // Default to unprotected if no protection middleware is found
+  if (guards.length === 0) return undefined;
+
+  return {
+    scheme: guards.find((guard) => guard.scheme)?.scheme ?? "auth",
+    roles: Array.from(new Set([...guards.flatMap((guard) => guard.roles), ...(metadata.roles || [])])),
+    scopes: Array.from(new Set([...guards.flatMap((guard) => guard.scopes), ...(metadata.scopes || [])])),
+    sources: guards.map((guard) => guard.name),
+  };
+}
+
+/**
+ * Get the roles or scopes required by a protection middleware
+ * Falls back to the matching array in the middleware metadata when the rule does not define them
+ */
+function resolveProtectionRequirement(
+  requirement: ProtectionMiddleware["roles"],
+  middleware: MiddlewareInfo,
+  metadataKey: "roles" | "scopes"
+): string[] {
+  if (typeof requirement === "function") return requirement(middleware);
+  if (requirement) return requirement;
+
+  const fromMetadata = middleware.metadata[metadataKey];
+  return Array.isArray(fromMetadata) ? fromMetadata.filter((value): value is string => typeof value === "string") : [];
 }
 
 /**
@@ -75,6 +338,335 @@ export function extractBaseRoute(regexp: RegExp | null | undefined): string {
   return extractFastPathRoute(regexString) || extractStandardRoute(regexString) || extractFallbackRoute(regexString);
 }
 
+/**
+ * Extract the base route of a mounted layer for either Express version
+ */
+export function extractLayerBaseRoute(layer: any): string {
+  if (!isExpress5Layer(layer)) {
+    return (layer.regexp && extractParameterizedRoute(layer.regexp.source, layer.keys)) || extractBaseRoute(layer.regexp);
+  }
+
+  const [regexp] = extractMatcherRegexps(layer);
+  if (!regexp) return "/";
+
+  return (
+    extractOptionalRoute(layer, regexp.source) ||
+    extractParameterizedRoute(regexp.source, extractMatcherKeys(layer, regexp.source)) ||
+    extractMatcherRoute(regexp.source) ||
+    extractBaseRoute(regexp)
+  );
+}
+
+/**
+ * Extract the base routes of a mounted layer, one for each path of a layer mounted on an array of paths
+ * @example app.use(["/v1", "/v2/:tenant"], router) => ["/v1", "/v2/:tenant"]
+ */
+export function extractLayerBaseRoutes(layer: any): string[] {
+  if (isExpress5Layer(layer)) {
+    // Express 5 keeps a matcher per path
+    return layer.matchers.length > 1
+      ? layer.matchers.map((matcher: any) => extractLayerBaseRoute({ ...layer, matchers: [matcher] }))
+      : [extractLayerBaseRoute(layer)];
+  }
+
+  // Express 4 joins the regexps of the paths, each anchored and ending like a mount path
+  const alternatives = layer.regexp ? splitAlternatives(layer.regexp.source) : [];
+  if (alternatives.length < 2 || !alternatives.every((source) => /^\^.*\\\/\?\(\?=\\\/\|\$\)$/.test(source))) {
+    return [extractLayerBaseRoute(layer)];
+  }
+
+  const keys: ParamKey[] = [...(layer.keys || [])];
+  return alternatives.map((source) =>
+    extractLayerBaseRoute({ regexp: new RegExp(source, layer.regexp.flags), keys: keys.splice(0, countCapturingGroups(source)) })
+  );
+}
+
+/**
+ * Rebuild a mount path with its named parameters from a layer regexp
+ * @example ^\/orgs(?:\/([^/]+?))\/projects\/?(?=\/|$) with key orgId => /orgs/:orgId/projects
+ *
+ * Returns null when the regexp has no named parameters or cannot be mapped back to a path.
+ */
+export function extractParameterizedRoute(regexSource: string, keys: ParamKey[] | undefined): string | null {
+  if (!keys || !keys.some((key) => typeof key.name === "string")) return null;
+
+  // Strip the anchors Express adds around mount paths, keeping the first alternative for Express 5
+  const matcherMatch = regexSource.match(MATCHER_PATTERN);
+  const source = matcherMatch
+    ? splitAlternatives(matcherMatch[1])[0]
+    : regexSource.replace(/^\^/, "").replace(/(?:\\\/\?)?(?:\(\?=\\\/\|\$\)|\$)$/, "");
+
+  const path = convertPatternToPath(source, [...keys]);
+  if (path === null) return null;
+
+  return path.startsWith("/") ? path : "/" + path;
+}
+
+/**
+ * Rebuild an Express 5 mount path with optional groups, which path-to-regexp v8 expands into alternatives
+ * @example ^(?:\/files\/([^\/]+)|\/files)(?:\/$)?(?=\/|$) => /files{/:name}
+ *
+ * Each alternative is converted to a path with its own parameter names. The first one has every group,
+ * the ones missing a single part of it locate the groups.
+ * Returns null when the regexp has no alternatives or they cannot be mapped back to groups.
+ */
+export function extractOptionalRoute(layer: any, regexSource: string): string | null {
+  const matcherMatch = regexSource.match(MATCHER_PATTERN);
+  const alternatives = matcherMatch ? splitAlternatives(matcherMatch[1]) : [];
+  if (alternatives.length < 2) return null;
+
+  const paths = alternatives.map((alternative, index) => convertPatternToPath(alternative, extractMatcherKeys(layer, regexSource, index)));
+  if (paths.some((path) => path === null)) return null;
+
+  const [full, ...others] = paths as string[];
+  const ranges = others.map((path) => findOptionalRange(full, path)).filter((range): range is [number, number] => range !== null);
+  const isCrossing = ranges.some(([start, end]) =>
+    ranges.some(([otherStart, otherEnd]) => start < otherStart && otherStart < end && end < otherEnd)
+  );
+  if (ranges.length === 0 || isCrossing) return null;
+
+  // Close the groups ending before opening the ones starting at the same position
+  let path = "";
+  for (let index = 0; index <= full.length; index++) {
+    const closing = ranges.filter(([, end]) => end === index).length;
+    const opening = ranges.filter(([start]) => start === index).length;
+    path += "}".repeat(closing) + "{".repeat(opening) + (full[index] ?? "");
+  }
+
+  return path.startsWith("/") ? path : "/" + path;
+}
+
+/**
+ * Find the part of a path removed from it to get a shorter alternative
+ * Parts starting a segment are preferred, so that groups start with their slash: /a{/b}/c rather than /a/{b/}c
+ */
+function findOptionalRange(full: string, alternative: string): [number, number] | null {
+  const length = full.length - alternative.length;
+  const ranges: Array<[number, number]> = [];
+
+  for (let start = 0; length > 0 && start <= alternative.length && full[start - 1] === alternative[start - 1]; start++) {
+    if (full.slice(start + length) === alternative.slice(start)) ranges.push([start, start + length]);
+  }
+
+  return ranges.find(([start]) => full[start] === "/") ?? ranges[0] ?? null;
+}
+
+/**
+ * Discover the parameter names of an Express 5 layer by matching a sample path
+ *
+ * Every capturing group is filled with a placeholder, so the params returned by the
+ * matcher map each placeholder back to its parameter name.
+ *
+ * @param alternative - Index of the alternative of the regexp to name the groups of, the first one by default
+ */
+export function extractMatcherKeys(layer: any, regexSource: string, alternative = 0): ParamKey[] {
+  const matcherMatch = regexSource.match(MATCHER_PATTERN);
+  if (!matcherMatch) return [];
+
+  const source = splitAlternatives(matcherMatch[1])[alternative] ?? "";
+  const groupCount = countCapturingGroups(source);
+  const placeholders = Array.from({ length: groupCount }, (_, index) => ({ name: `__param${index}__` }));
+
+  const samplePath = convertPatternToPath(source, [...placeholders]);
+  if (!samplePath) return [];
+
+  const result = layer.matchers[0](samplePath.replace(/[:*](__param\d+__)/g, "$1"));
+  if (!result || !result.params) return [];
+
+  const namesByPlaceholder = new Map<string, string>();
+  Object.keys(result.params).forEach((name) => {
+    // Wildcard parameters are matched as arrays of segments
+    const values = Array.isArray(result.params[name]) ? result.params[name] : [result.params[name]];
+    values.forEach((value: string) => namesByPlaceholder.set(value, name));
+  });
+
+  return placeholders.map((placeholder, index) => ({ name: namesByPlaceholder.get(placeholder.name) ?? index }));
+}
+
+/**
+ * Convert a regexp source back to an Express path, naming capturing groups from the keys
+ */
+function convertPatternToPath(source: string, keys: ParamKey[]): string | null {
+  let path = "";
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === "\\") {
+      // Escaped literal characters are kept, character classes like \d are not paths
+      const escaped = source[index + 1];
+      if (!escaped || /[a-zA-Z0-9]/.test(escaped)) return null;
+      path += escaped;
+      index += 2;
+    } else if (char === "(") {
+      const end = findClosingParen(source, index);
+      if (end === -1) return null;
+
+      const body = source.slice(index + 1, end);
+      const optional = source[end + 1] === "?";
+
+      if (body.startsWith("?:")) {
+        // Non-capturing groups wrap a parameter and its leading slash
+        const inner = convertPatternToPath(body.slice(2), keys);
+        if (inner === null) return null;
+        path += inner + (optional ? "?" : "");
+      } else if (!body.startsWith("?")) {
+        const key = keys.shift();
+        if (!key || typeof key.name !== "string") return null;
+
+        // Nested groups of a custom pattern have keys of their own
+        keys.splice(0, countCapturingGroups(body));
+        path += formatParam(key.name, body) + (optional ? "?" : "");
+      }
+
+      index = end + (optional ? 2 : 1);
+    } else if ("[]|^$*+?{}".includes(char)) {
+      return null;
+    } else {
+      path += char;
+      index++;
+    }
+  }
+
+  return path;
+}
+
+/**
+ * Format a named parameter, keeping its pattern when it is not the default one
+ */
+function formatParam(name: string, pattern: string): string {
+  if (WILDCARD_PARAM_PATTERNS.includes(pattern)) return `*${name}`;
+  if (DEFAULT_PARAM_PATTERNS.includes(pattern) || SEPARATED_PARAM_PATTERNS.some((regexp) => regexp.test(pattern))) return `:${name}`;
+  return `:${name}(${pattern})`;
+}
+
+/**
+ * Find the index of the parenthesis closing the group opened at `start`
+ */
+function findClosingParen(source: string, start: number): number {
+  let depth = 0;
+  let inClass = false;
+
+  for (let index = start; index < source.length; index++) {
+    const char = source[index];
+
+    if (char === "\\") {
+      index++;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")" && --depth === 0) {
+      return index;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Count the capturing groups in a regexp source
+ */
+function countCapturingGroups(source: string): number {
+  let count = 0;
+  let inClass = false;
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (char === "\\") {
+      index++;
+    } else if (inClass) {
+      inClass = char !== "]";
+    } else if (char === "[") {
+      inClass = true;
+    } else if (char === "(" && source[index + 1] !== "?") {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Split a regexp source on its top-level alternations
+ */
+function splitAlternatives(source: string): string[] {
+  const alternatives: string[] = [];
+  let start = 0;
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === "\\") {
+      index += 2;
+    } else if (char === "(" || char === "[") {
+      const end = char === "(" ? findClosingParen(source, index) : source.indexOf("]", index + 1);
+      index = end === -1 ? source.length : end + 1;
+    } else {
+      if (char === "|") {
+        alternatives.push(source.slice(start, index));
+        start = index + 1;
+      }
+      index++;
+    }
+  }
+
+  alternatives.push(source.slice(start));
+  return alternatives;
+}
+
+/**
+ * Recover the regexps compiled by an Express 5 layer's matchers
+ *
+ * Express 5 keeps the compiled regexps private to the matcher closures, so each
+ * matcher is run once against an empty path while RegExp#exec is observed.
+ */
+export function extractMatcherRegexps(layer: any): RegExp[] {
+  const regexps: RegExp[] = [];
+  const originalExec = RegExp.prototype.exec;
+
+  RegExp.prototype.exec = function (this: RegExp, input: string) {
+    regexps.push(this);
+    return originalExec.call(this, input);
+  };
+
+  try {
+    (layer.matchers || []).forEach((matcher: any) => {
+      const captured = regexps.length;
+      matcher("");
+      // Only the first regexp run by each matcher belongs to it
+      regexps.splice(captured + 1);
+    });
+  } catch {
+    // A matcher we cannot run leaves us with whatever was captured so far
+  } finally {
+    RegExp.prototype.exec = originalExec;
+  }
+
+  return regexps;
+}
+
+/**
+ * Extract path from path-to-regexp v8 patterns used by Express 5
+ */
+export function extractMatcherRoute(regexSource: string): string | null {
+  // For patterns like ^(?:\/api\/users)(?:\/$)?(?=\/|$)
+  const matcherMatch = regexSource.match(MATCHER_PATTERN);
+  if (!matcherMatch) return null;
+
+  const path = matcherMatch[1]
+    .replace(/\([^)]*\)/g, "") // Remove capturing groups
+    .replace(/\\(.)/g, "$1") // Unescape literal characters
+    .replace(/\/{2,}/g, "/"); // Replace multiple slashes
+
+  return path.startsWith("/") ? path : "/" + path;
+}
+
 /**
  * Extract path from fast path Express patterns
  */
@@ -136,6 +728,56 @@ export function extractFallbackRoute(_regexString: string): string {
   return "/";
 }
 
+/**
+ * List the parameters of a route path
+ * Supports Express 4 (`:id?`, `:id(\d+)`, `:path*`, `*`) and Express 5 (`*path`, `{/:id}`) syntax
+ * @example /users/:id(\d+)/files/*path => [{ name: "id", pattern: "\d+" }, { name: "path", wildcard: true }]
+ */
+export function extractPathParams(path: string): RouteParam[] {
+  const params: RouteParam[] = [];
+  let braceDepth = 0;
+  let unnamedIndex = 0;
+
+  for (let index = 0; index < path.length; index++) {
+    const char = path[index];
+
+    if (char === "{") {
+      braceDepth++;
+    } else if (char === "}") {
+      braceDepth = Math.max(0, braceDepth - 1);
+    } else if (char === ":" || char === "*") {
+      const name = /^[A-Za-z_$][\w$]*/.exec(path.slice(index + 1))?.[0] || "";
+      if (char === ":" && !name) continue;
+
+      let end = index + 1 + name.length;
+      let pattern: string | undefined;
+
+      // Express 4 regexp constraint, like :id(\d+)
+      if (char === ":" && path[end] === "(") {
+        const closingIndex = findClosingParen(path, end);
+        if (closingIndex !== -1) {
+          pattern = path.slice(end + 1, closingIndex);
+          end = closingIndex + 1;
+        }
+      }
+
+      // Express 4 modifiers: ? optional, * zero or more, + one or more
+      const modifier = char === ":" && ["?", "*", "+"].includes(path[end]) ? path[end] : "";
+
+      params.push({
+        name: name || String(unnamedIndex++),
+        optional: braceDepth > 0 || modifier === "?" || modifier === "*",
+        wildcard: char === "*" || modifier === "*" || modifier === "+",
+        ...(pattern !== undefined && { pattern }),
+      });
+
+      index = end + modifier.length - 1;
+    }
+  }
+
+  return params;
+}
+
 /**
  * Safely combine path segments, avoiding double slashes
  */
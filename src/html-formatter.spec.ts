@@ -0,0 +1,90 @@
+import express from "express";
+import { htmlFormatter } from "./html-formatter";
+import { extractRoutes } from "./extract-routes";
+import { formatRoutes } from "./print-routes";
+import { createRoute } from "./test-utils";
+
+/**
+ * Read the route data embedded in a report
+ */
+const readData = (html: string) =>
+  JSON.parse((/<script type="application\/json" id="route-data">(.*)<\/script>/.exec(html) as string[])[1]);
+
+describe("htmlFormatter", () => {
+  it("should be available as the html format", () => {
+    const html = formatRoutes([createRoute("GET", "/health")], { format: "html", appInfo: { name: "billing", version: "2.0.0" } });
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<title>billing 2.0.0</title>");
+    expect(html.endsWith("</html>\n")).toBe(true);
+  });
+
+  it("should embed the routes grouped by domain, with method colors and protection details", () => {
+    const html = htmlFormatter.format(
+      [
+        createRoute("POST", "/api/users", {
+          protected: true,
+          protection: { scheme: "bearer", roles: ["admin"], scopes: [], sources: ["requireAuth"] },
+        }),
+        createRoute("GET", "/api/users/:id", { metadata: { summary: "Get a user" } }),
+        createRoute("GET", "/health"),
+      ],
+      {}
+    );
+    const data = readData(html);
+
+    expect(data.groups.map((group: { name: string }) => group.name)).toEqual(["Root", "Users"]);
+    expect(data.groups[1].routes).toEqual([
+      expect.objectContaining({
+        method: "GET",
+        path: "/api/users/:id",
+        params: [{ name: "id", optional: false, wildcard: false }],
+        metadata: { summary: "Get a user" },
+        methodColor: "green",
+        protectionDetails: "",
+      }),
+      expect.objectContaining({ method: "POST", protected: true, methodColor: "blue", protectionDetails: "bearer roles:admin" }),
+    ]);
+  });
+
+  it("should embed the middleware chain of the routes", () => {
+    const app = express();
+    function requireAuth(req: any, res: any, next: any) {
+      next();
+    }
+
+    app.use(requireAuth);
+    app.get("/api/orders", function listOrders(req, res) {
+      res.send("Orders");
+    });
+
+    const [route] = readData(htmlFormatter.format(extractRoutes(app), {})).groups[0].routes;
+
+    expect(route.inheritedMiddlewares).toEqual([expect.objectContaining({ name: "requireAuth", scope: "app" })]);
+    expect(route.middlewares).toEqual([expect.objectContaining({ name: "listOrders", scope: "route" })]);
+  });
+
+  it("should be self-contained", () => {
+    const html = htmlFormatter.format([createRoute("GET", "/health")], {});
+
+    expect(html).not.toMatch(/<(script|link|img)[^>]+(src|href)=/);
+    expect(html).toContain("<style>");
+  });
+
+  it("should escape names, paths and metadata", () => {
+    const html = htmlFormatter.format([createRoute("GET", "/search", { metadata: { summary: "</script><script>alert(1)" } })], {
+      appInfo: { name: "<b>API</b>" },
+    });
+
+    expect(html).toContain("<title>&lt;b&gt;API&lt;/b&gt;</title>");
+    expect(html).not.toContain("</script><script>alert(1)");
+    expect(readData(html).groups[0].routes[0].metadata.summary).toBe("</script><script>alert(1)");
+  });
+
+  it("should include a valid script", () => {
+    const html = htmlFormatter.format([createRoute("GET", "/health")], {});
+    const script = (/<script>([\s\S]*)<\/script>/.exec(html) as string[])[1];
+
+    expect(() => new Function(script)).not.toThrow();
+  });
+});
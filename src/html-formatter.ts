@@ -0,0 +1,248 @@
+import { Formatter, FormatRoutesOptions, RouteInfo } from "./types";
+import { groupRoutes } from "./route-groups";
+import { serializeRoute } from "./json-formatter";
+import { formatProtectionDetails, getMethodColorName } from "./print-routes.utils";
+
+/**
+ * Renders routes as a self-contained HTML report with search, filters and route details
+ * Styles, script and data are inlined so the file works offline
+ */
+export const htmlFormatter: Formatter = {
+  format: formatHTML,
+};
+
+/**
+ * Styles of the report, with the method colors of the terminal view
+ */
+const STYLES = `
+  :root {
+    --background: #0d1117; --surface: #161b22; --border: #30363d; --text: #e6edf3; --muted: #8b949e;
+    --green: #3fb950; --blue: #58a6ff; --yellow: #d29922; --red: #f85149; --magenta: #bc8cff; --gray: #8b949e; --cyan: #39c5cf;
+  }
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 24px; background: var(--background); color: var(--text); font: 14px/1.5 system-ui, sans-serif; }
+  code, pre, .method { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+  header { display: flex; flex-wrap: wrap; gap: 8px 16px; align-items: baseline; }
+  h1 { margin: 0; font-size: 22px; }
+  #count, .muted { color: var(--muted); }
+  #search { flex: 1 1 100%; padding: 8px 12px; border: 1px solid var(--border); border-radius: 6px; background: var(--surface); color: var(--text); font-size: 15px; }
+  .filters { display: flex; flex-wrap: wrap; gap: 6px; align-items: center; margin-top: 12px; }
+  .filters-label { width: 90px; color: var(--muted); font-size: 12px; text-transform: uppercase; }
+  .chip { padding: 2px 10px; border: 1px solid var(--border); border-radius: 12px; background: none; color: var(--text); cursor: pointer; font: inherit; }
+  .chip[aria-pressed="true"] { border-color: var(--cyan); background: #1f6feb33; }
+  .group { margin-top: 20px; border: 1px solid var(--border); border-radius: 6px; background: var(--surface); }
+  .group > summary { padding: 8px 12px; cursor: pointer; font-weight: bold; color: var(--cyan); }
+  .group > summary .muted { margin-left: 8px; font-weight: normal; }
+  .route { border-top: 1px solid var(--border); }
+  .route > summary { display: flex; gap: 12px; align-items: baseline; padding: 6px 12px; cursor: pointer; }
+  .method { display: inline-block; width: 70px; font-weight: bold; }
+  .green { color: var(--green); } .blue { color: var(--blue); } .yellow { color: var(--yellow); }
+  .red { color: var(--red); } .magenta { color: var(--magenta); } .gray { color: var(--gray); }
+  .deprecated { text-decoration: line-through; color: var(--muted); }
+  .protection { color: var(--yellow); }
+  .mismatch { color: var(--red); }
+  .summary { margin-left: auto; color: var(--muted); }
+  .details { padding: 4px 12px 12px 94px; }
+  .details h3 { margin: 8px 0 4px; font-size: 12px; color: var(--muted); text-transform: uppercase; }
+  .details ol, .details ul { margin: 0; padding-left: 20px; }
+  .details pre { margin: 0; white-space: pre-wrap; }
+  .scope { margin-left: 6px; padding: 0 6px; border: 1px solid var(--border); border-radius: 8px; font-size: 11px; color: var(--muted); }
+`;
+
+/**
+ * Script rendering the routes and applying the search and filters
+ * Filters of the same kind are combined with OR, different kinds with AND
+ */
+const SCRIPT = `
+  const data = JSON.parse(document.getElementById("route-data").textContent);
+  const routes = data.groups.flatMap((group) => group.routes.map((route) => Object.assign({ group: group.name }, route)));
+  const state = { search: "", method: new Set(), protection: new Set(), group: new Set() };
+  const collapsedGroups = new Set();
+
+  const element = (tag, className, text) => {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+  };
+
+  const protectionStatus = (route) => (route.protected ? "Protected" : "Public");
+
+  const matches = (route) => {
+    const text = [route.method, route.path, route.metadata.summary || "", route.middlewares.map((m) => m.name).join(" ")].join(" ");
+    return (
+      text.toLowerCase().includes(state.search) &&
+      (state.method.size === 0 || state.method.has(route.method)) &&
+      (state.protection.size === 0 || state.protection.has(protectionStatus(route))) &&
+      (state.group.size === 0 || state.group.has(route.group))
+    );
+  };
+
+  const renderList = (tag, items) => {
+    const list = element(tag);
+    items.forEach((item) => list.append(item));
+    return list;
+  };
+
+  const renderMiddleware = (middleware) => {
+    const item = element("li");
+    item.append(element("code", "", middleware.name), element("span", "scope", middleware.scope));
+    if (middleware.isAsync) item.append(element("span", "scope", "async"));
+    if (middleware.isErrorHandler) item.append(element("span", "scope", "error handler"));
+    if (middleware.location) {
+      const location = middleware.location;
+      item.append(element("span", "muted", " " + location.file + ":" + location.line + ":" + location.column));
+    }
+    return item;
+  };
+
+  const renderParam = (param) => {
+    const notes = [param.optional && "optional", param.wildcard && "wildcard", param.pattern && "pattern " + param.pattern].filter(Boolean);
+    const item = element("li");
+    item.append(element("code", "", param.name), element("span", "muted", notes.length ? " " + notes.join(", ") : ""));
+    return item;
+  };
+
+  const renderDetails = (route) => {
+    const details = element("div", "details");
+    const section = (title, content) => details.append(element("h3", "", title), content);
+
+    section("Middleware chain", renderList("ol", route.inheritedMiddlewares.concat(route.middlewares).map(renderMiddleware)));
+    if (route.params.length) section("Parameters", renderList("ul", route.params.map(renderParam)));
+    if (route.protection && route.protection.sources.length) section("Protected by", element("p", "", route.protection.sources.join(", ")));
+    if (Object.keys(route.metadata).length) section("Metadata", element("pre", "", JSON.stringify(route.metadata, null, 2)));
+    if (route.location) {
+      section("Location", element("code", "", route.location.file + ":" + route.location.line + ":" + route.location.column));
+    }
+    return details;
+  };
+
+  const renderRoute = (route) => {
+    const item = element("details", "route");
+    const summary = element("summary");
+    const protection = (route.protected ? "🔒 " : "🌍 ") + protectionStatus(route) + (route.protectionDetails ? " " + route.protectionDetails : "");
+
+    summary.append(
+      element("span", "method " + route.methodColor, route.method),
+      element("code", route.metadata.deprecated ? "deprecated" : "", route.path),
+      element("span", "protection", protection)
+    );
+    if (route.protectionMismatch) summary.append(element("span", "mismatch", "! " + route.protectionMismatch.issues.join("; ")));
+    if (route.metadata.summary) summary.append(element("span", "summary", route.metadata.summary));
+
+    item.addEventListener("toggle", () => {
+      if (item.open && item.childElementCount === 1) item.append(renderDetails(route));
+    });
+    item.append(summary);
+    return item;
+  };
+
+  const render = () => {
+    const container = document.getElementById("groups");
+    const visibleRoutes = routes.filter(matches);
+    container.replaceChildren();
+
+    data.groups.forEach((group) => {
+      const groupRoutes = visibleRoutes.filter((route) => route.group === group.name);
+      if (groupRoutes.length === 0) return;
+
+      const section = element("details", "group");
+      const summary = element("summary", "", group.name);
+      summary.append(element("span", "muted", groupRoutes.length + (groupRoutes.length === 1 ? " route" : " routes")));
+      section.append(summary);
+      groupRoutes.forEach((route) => section.append(renderRoute(route)));
+
+      section.open = !collapsedGroups.has(group.name);
+      section.addEventListener("toggle", () => {
+        if (section.open) collapsedGroups.delete(group.name);
+        else collapsedGroups.add(group.name);
+      });
+      container.append(section);
+    });
+
+    document.getElementById("count").textContent = visibleRoutes.length + " of " + routes.length + " routes";
+    document.getElementById("empty").hidden = visibleRoutes.length > 0;
+  };
+
+  const renderFilters = (label, key, values) => {
+    const filters = element("div", "filters");
+    filters.append(element("span", "filters-label", label));
+    values.forEach((value) => {
+      const chip = element("button", "chip", value);
+      chip.type = "button";
+      chip.setAttribute("aria-pressed", "false");
+      chip.addEventListener("click", () => {
+        if (state[key].has(value)) state[key].delete(value);
+        else state[key].add(value);
+        chip.setAttribute("aria-pressed", String(state[key].has(value)));
+        render();
+      });
+      filters.append(chip);
+    });
+    document.getElementById("filters").append(filters);
+  };
+
+  renderFilters("Method", "method", Array.from(new Set(routes.map((route) => route.method))));
+  renderFilters("Protection", "protection", ["Protected", "Public"]);
+  renderFilters("Domain", "group", data.groups.map((group) => group.name));
+
+  document.getElementById("search").addEventListener("input", (event) => {
+    state.search = event.target.value.trim().toLowerCase();
+    render();
+  });
+
+  render();
+`;
+
+/**
+ * Format routes as a standalone HTML document
+ */
+function formatHTML(routes: RouteInfo[], options: FormatRoutesOptions): string {
+  const { appInfo = {} } = options;
+  const title = [appInfo.name || "Routes", appInfo.version].filter(Boolean).join(" ");
+
+  const data = {
+    app: appInfo,
+    groups: groupRoutes(routes, options.groupBy, options.sortBy).map((group) => ({
+      name: group.name,
+      routes: group.routes.map((route) => ({
+        ...serializeRoute(route, options.groupBy),
+        methodColor: getMethodColorName(route.method),
+        protectionDetails: formatProtectionDetails(route.protection),
+      })),
+    })),
+  };
+
+  // Escaping < keeps paths and metadata from closing the script element
+  const json = JSON.stringify(data).replace(/</g, "\\u003c");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHTML(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHTML(title)}</h1>
+<span id="count"></span>
+<input id="search" type="search" placeholder="Search methods, paths, middleware and summaries" aria-label="Search routes" autofocus>
+</header>
+<nav id="filters"></nav>
+<main id="groups"></main>
+<p id="empty" class="muted" hidden>No routes found matching your criteria</p>
+<script type="application/json" id="route-data">${json}</script>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Escape text placed in HTML
+ */
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
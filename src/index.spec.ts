@@ -1,3 +1,4 @@
+import * as api from "./index";
 import { displayRoutes } from "./index";
 import { RouteInfo } from "./types";
 import express, { Router, Request, Response } from "express";
@@ -39,6 +40,33 @@ describe("index", () => {
       expect(consoleOutput).toContain("POST");
     });
 
+    it("should send the routes to the configured output", () => {
+      const app = express();
+      const output = jest.fn();
+
+      app.get("/health", (req: Request, res: Response) => res.send("OK"));
+
+      displayRoutes(app, { output });
+
+      expect(console.log).not.toHaveBeenCalled();
+      expect(output).toHaveBeenCalledTimes(1);
+      expect(output.mock.calls[0][0]).toMatch(/GET\s+│ \/health/);
+    });
+
+    it("should include the Express version in the JSON output", () => {
+      const app = express();
+      const output = jest.fn();
+
+      app.get("/health", (req: Request, res: Response) => res.send("OK"));
+
+      displayRoutes(app, { format: "json", output, appInfo: { name: "status" } });
+
+      const inventory = JSON.parse(output.mock.calls[0][0]);
+
+      expect(inventory.app).toEqual({ name: "status", expressVersion: expect.any(Number) });
+      expect(inventory.routes).toEqual([expect.objectContaining({ method: "GET", path: "/health" })]);
+    });
+
     it("should apply configuration options correctly", () => {
       // Create a real Express app
       const app = express();
@@ -166,4 +194,47 @@ describe("index", () => {
       expect(consoleOutput).not.toContain("DELETE");
     });
   });
+
+  describe("Public API", () => {
+    it("should export the extraction, rendering and export functions", () => {
+      const functions = [
+        api.displayRoutes,
+        api.extractRoutes,
+        api.extractRouteTree,
+        api.formatRoutes,
+        api.printRoutes,
+        api.summarizeRoutes,
+        api.toRouteSnapshot,
+        api.writeRouteSnapshot,
+        api.readRouteSnapshot,
+        api.diffRoutes,
+        api.formatRouteDiff,
+        api.createRouteMatchers,
+        api.instrument,
+        api.describe,
+        api.tag,
+        api.protectionFactory,
+        api.auditRoutes,
+        api.printAuditReport,
+        api.toRouteInventory,
+        api.replaceMarkdownBlock,
+        api.updateMarkdownFile,
+        api.toOpenAPI,
+        api.routesToOpenAPI,
+        api.formatOpenAPI,
+        api.toPostmanCollection,
+        api.routesToPostmanCollection,
+        api.toMermaid,
+        api.toDot,
+      ];
+
+      functions.forEach((fn) => expect(typeof fn).toBe("function"));
+      [api.tableFormatter, api.jsonFormatter, api.markdownFormatter, api.htmlFormatter].forEach((formatter) =>
+        expect(typeof formatter.format).toBe("function")
+      );
+      expect(Object.keys(api.routeMatchers)).toEqual(["toHaveRoute", "toBeProtectedRoute", "toHaveMiddleware", "toMatchRouteSnapshot"]);
+      expect(api.ROUTES_SCHEMA_VERSION).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(api.ROUTES_SCHEMA_URL).toMatch(/routes\.schema\.json$/);
+    });
+  });
 });
@@ -1,13 +1,34 @@
 import { DisplayRoutesConfig } from "./types";
 import { extractRoutes } from "./extract-routes";
 import { printRoutes } from "./print-routes";
+import { detectExpressVersion } from "./extract-routes.utils";
+
+export * from "./types";
+export { instrument } from "./instrument";
+export { describe, tag, protectionFactory } from "./describe";
+export { auditRoutes, printAuditReport } from "./audit-routes";
+export { extractRoutes, extractRouteTree } from "./extract-routes";
+export { toMermaid, toDot } from "./route-diagrams";
+export { formatRoutes, printRoutes, tableFormatter } from "./print-routes";
+export { summarizeRoutes } from "./route-stats";
+export { toRouteSnapshot, writeRouteSnapshot, readRouteSnapshot, diffRoutes, formatRouteDiff } from "./route-diff";
+export { createRouteMatchers, routeMatchers } from "./matchers";
+export { jsonFormatter, toRouteInventory, ROUTES_SCHEMA_VERSION, ROUTES_SCHEMA_URL } from "./json-formatter";
+export { markdownFormatter, replaceMarkdownBlock, updateMarkdownFile } from "./markdown-formatter";
+export { htmlFormatter } from "./html-formatter";
+export { toOpenAPI, routesToOpenAPI, formatOpenAPI } from "./openapi";
+export { toPostmanCollection, routesToPostmanCollection } from "./postman";
 
 /**
  * Display routes from an Express application
+ * Routes are printed to the console unless an `output` is configured
  *
  * @param app - Express Application instance
  * @param config - Configuration options
  */
 export function displayRoutes(app: any, config: DisplayRoutesConfig = {}): void {
-  printRoutes(extractRoutes(app, config));
+  printRoutes(extractRoutes(app, config), {
+    ...config,
+    appInfo: { expressVersion: detectExpressVersion(app), ...config.appInfo },
+  });
 }
@@ -0,0 +1,176 @@
+import express, { Router } from "express";
+import { instrument, getDeclaredPaths, getDeclaredLocation, parseStackFrame } from "./instrument";
+import { extractRoutes } from "./extract-routes";
+import { getAppRouter } from "./extract-routes.utils";
+import { itExpress4 } from "./test-utils";
+
+// Instrumentation wraps the shared Express module, so it applies to every test in this file
+instrument(express);
+
+describe("instrument", () => {
+  describe("Path Recording", () => {
+    it("should record mount paths exactly as declared", () => {
+      const app = express();
+      const router = Router();
+
+      router.get("/:projectId", (req, res) => res.send("Project"));
+      app.use("/orgs/:orgId/projects", router);
+
+      const routes = extractRoutes(app);
+
+      expect(routes[0].path).toBe("/orgs/:orgId/projects/:projectId");
+    });
+
+    it("should list routers mounted on an array of paths under each path", () => {
+      const app = express();
+      const router = Router();
+
+      router.get("/items", (req, res) => res.send("Items"));
+      app.use(["/v1", "/v2"], router);
+
+      const routes = extractRoutes(app);
+
+      expect(routes.map((r) => r.path)).toEqual(["/v1/items", "/v2/items"]);
+    });
+
+    it("should list routes declared with an array of paths under each path", () => {
+      const app = express();
+
+      app.get(["/users", "/members"], (req, res) => res.send("Users"));
+
+      const routes = extractRoutes(app);
+
+      expect(routes.map((r) => r.path)).toEqual(["/users", "/members"]);
+    });
+
+    it("should render regexp mount paths as when the app is not instrumented", () => {
+      const app = express();
+      const router = Router();
+
+      router.get("/item", (req, res) => res.send("Item"));
+      app.use(/^\/re/, router);
+      app.use(["/list", /^\/api/], router);
+
+      const routes = extractRoutes(app);
+
+      expect(routes.map((r) => r.path)).toEqual(["/re/item", "/list/item", "/api/item"]);
+    });
+
+    itExpress4("should record mount paths with regex constrained parameters", () => {
+      const app = express();
+      const router = Router();
+
+      router.get("/", (req, res) => res.send("User"));
+      app.use("/users/:id(\\d+)", router);
+
+      const routes = extractRoutes(app);
+
+      expect(routes[0].path).toBe("/users/:id(\\d+)");
+    });
+
+    it("should apply middleware mounted on an array of paths to each path", () => {
+      const app = express();
+
+      function authenticate(req: any, res: any, next: any) {
+        next();
+      }
+
+      app.use(["/admin", "/internal"], authenticate);
+      app.get("/admin/settings", (req, res) => res.send("Settings"));
+      app.get("/internal/jobs", (req, res) => res.send("Jobs"));
+      app.get("/public", (req, res) => res.send("Public"));
+
+      const routes = extractRoutes(app, { protectionMiddlewareName: "authenticate" });
+
+      expect(routes.filter((r) => r.protected).map((r) => r.path)).toEqual(["/admin/settings", "/internal/jobs"]);
+    });
+  });
+
+  describe("Source Locations", () => {
+    it("should record where each route was registered", () => {
+      const app = express();
+
+      app.get("/first", (req, res) => res.send("First"));
+      app.get("/second", (req, res) => res.send("Second"));
+
+      const [first, second] = extractRoutes(app);
+
+      expect(first.location).toEqual({ file: __filename, line: expect.any(Number), column: expect.any(Number) });
+      expect(second.location?.file).toBe(__filename);
+      expect(second.location!.line).toBe(first.location!.line + 1);
+    });
+
+    it("should record where inherited middleware was registered", () => {
+      const app = express();
+      const router = Router();
+
+      router.use((req, res, next) => next());
+      router.get("/", (req, res) => res.send("Users"));
+      app.use("/users", router);
+
+      const [route] = extractRoutes(app);
+
+      expect(route.inheritedMiddlewares).toHaveLength(1);
+      expect(route.inheritedMiddlewares[0].location?.file).toBe(__filename);
+      expect(route.inheritedMiddlewares[0].location!.line).toBe(route.location!.line - 1);
+      expect(route.middlewares[0].location).toEqual(route.location);
+    });
+
+    it("should return undefined for layers registered without instrumentation", () => {
+      expect(getDeclaredLocation({ route: {} })).toBeUndefined();
+      expect(getDeclaredLocation(undefined)).toBeUndefined();
+    });
+  });
+
+  describe("parseStackFrame", () => {
+    it("should parse named and anonymous frames", () => {
+      expect(parseStackFrame("    at Object.<anonymous> (/app/src/routes.ts:12:5)")).toEqual({
+        file: "/app/src/routes.ts",
+        line: 12,
+        column: 5,
+      });
+      expect(parseStackFrame("    at /app/my routes/index.js:3:14")).toEqual({ file: "/app/my routes/index.js", line: 3, column: 14 });
+      expect(parseStackFrame("    at file:///app/server.mjs:7:1")).toEqual({ file: "/app/server.mjs", line: 7, column: 1 });
+    });
+
+    it("should return undefined for frames without a location", () => {
+      expect(parseStackFrame("Error")).toBeUndefined();
+      expect(parseStackFrame("    at new Promise (<anonymous>)")).toBeUndefined();
+    });
+  });
+
+  describe("getDeclaredPaths", () => {
+    it("should record the root path for middleware registered without a path", () => {
+      const router = Router();
+
+      router.use((req, res, next) => next());
+      router.use([(req: any, res: any, next: any) => next()]);
+
+      const stack = (router as any).stack;
+      expect(getDeclaredPaths(stack[0])).toEqual(["/"]);
+      expect(getDeclaredPaths(stack[1])).toEqual(["/"]);
+    });
+
+    it("should return undefined for layers registered without instrumentation", () => {
+      expect(getDeclaredPaths({ route: {} })).toBeUndefined();
+      expect(getDeclaredPaths(null)).toBeUndefined();
+    });
+  });
+
+  describe("Instrumentation", () => {
+    it("should only wrap the router methods once", () => {
+      const app = express();
+
+      instrument(express);
+      app.get("/health", (req, res) => res.send("OK"));
+
+      expect(getAppRouter(app).stack.filter((layer: any) => layer.route)).toHaveLength(1);
+      expect(extractRoutes(app).map((r) => r.path)).toEqual(["/health"]);
+    });
+
+    it("should return the module unchanged when it has no router", () => {
+      const notExpress = {};
+      expect(instrument(notExpress)).toBe(notExpress);
+    });
+  });
+});
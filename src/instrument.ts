@@ -0,0 +1,151 @@
+import { SourceLocation } from "./types";
+
+/**
+ * Path a layer was declared with: a string, a RegExp or a (nested) array of those
+ */
+type DeclaredPath = string | RegExp | DeclaredPath[];
+
+/**
+ * Marks a router prototype whose methods are already wrapped
+ */
+const INSTRUMENTED = Symbol.for("express-route-visualizer.instrumented");
+
+/**
+ * Paths recorded at registration time, keyed by router layer
+ */
+const declaredPaths = new WeakMap<object, DeclaredPath>();
+
+/**
+ * Source locations of the registration calls, keyed by router layer
+ */
+const declaredLocations = new WeakMap<object, SourceLocation>();
+
+/**
+ * Files of Express itself, whose frames are skipped when looking for the registration call
+ */
+const EXPRESS_FILE_PATTERN = /[\\/]node_modules[\\/](?:express[^\\/]*|router)[\\/]/;
+
+/**
+ * Record route and mount paths exactly as they are declared
+ *
+ * Wraps the router `use` and `route` methods of the given Express module, which the
+ * app and all HTTP verb methods delegate to. Call it before any route is registered;
+ * `extractRoutes` then prefers the recorded paths over reverse-engineering regexps.
+ * The file and line of each registration call are recorded as well.
+ *
+ * @param express - The Express module (Express 4 or 5)
+ * @returns The same Express module
+ */
+export function instrument<T>(express: T): T {
+  const routerProto = getRouterPrototype(express);
+
+  if (!routerProto || routerProto[INSTRUMENTED]) {
+    return express;
+  }
+
+  const originalUse = routerProto.use;
+  const originalRoute = routerProto.route;
+
+  routerProto.use = function (this: any, ...args: any[]) {
+    return recordNewLayers(this, extractUsePath(args), () => originalUse.apply(this, args));
+  };
+
+  routerProto.route = function (this: any, path: DeclaredPath) {
+    return recordNewLayers(this, path, () => originalRoute.call(this, path));
+  };
+
+  routerProto[INSTRUMENTED] = true;
+
+  return express;
+}
+
+/**
+ * Get the paths recorded for a layer, with arrays flattened
+ * Returns undefined when the layer was registered without instrumentation
+ */
+export function getDeclaredPaths(layer: any): Array<string | RegExp> | undefined {
+  const declaredPath = layer && typeof layer === "object" ? declaredPaths.get(layer) : undefined;
+  if (declaredPath === undefined) return undefined;
+
+  return Array.isArray(declaredPath) ? ((declaredPath as any[]).flat(Infinity) as Array<string | RegExp>) : [declaredPath];
+}
+
+/**
+ * Get the source location recorded for a layer
+ * Returns undefined when the layer was registered without instrumentation
+ */
+export function getDeclaredLocation(layer: any): SourceLocation | undefined {
+  return layer && typeof layer === "object" ? declaredLocations.get(layer) : undefined;
+}
+
+/**
+ * Parse a V8 stack frame like "at fn (/app/routes.js:12:5)" into a source location
+ */
+export function parseStackFrame(frame: string): SourceLocation | undefined {
+  const match = frame.match(/^\s*at (?:.*? \()?(?:file:\/\/)?(.+?):(\d+):(\d+)\)?$/);
+  if (!match) return undefined;
+
+  return { file: match[1], line: Number(match[2]), column: Number(match[3]) };
+}
+
+/**
+ * Get the object holding the router methods
+ * Express 4 routers inherit from `express.Router` itself, Express 5 routers from `express.Router.prototype`
+ */
+function getRouterPrototype(express: any): any {
+  const Router = express?.Router;
+  if (!Router) return undefined;
+
+  return typeof Router.prototype?.use === "function" ? Router.prototype : Router;
+}
+
+/**
+ * Extract the mount path from `use` arguments the same way Express does
+ */
+function extractUsePath(args: any[]): DeclaredPath {
+  let first = args[0];
+
+  // The path may be nested in arrays, but a leading function means no path was given
+  while (Array.isArray(first) && first.length !== 0) {
+    first = first[0];
+  }
+
+  return typeof first === "function" ? "/" : args[0];
+}
+
+/**
+ * Run a registration and record the path of every layer it added to the router stack
+ */
+function recordNewLayers<T>(router: any, path: DeclaredPath, register: () => T): T {
+  const location = captureCallSite();
+  const previousLength = router.stack ? router.stack.length : 0;
+  const result = register();
+
+  (router.stack || []).slice(previousLength).forEach((layer: any) => {
+    declaredPaths.set(layer, path);
+    if (location) {
+      declaredLocations.set(layer, location);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Find the first stack frame outside of Express and this module
+ */
+function captureCallSite(): SourceLocation | undefined {
+  const originalLimit = Error.stackTraceLimit;
+  Error.stackTraceLimit = 30;
+  const stack = new Error().stack || "";
+  Error.stackTraceLimit = originalLimit;
+
+  return stack
+    .split("\n")
+    .slice(1)
+    .map(parseStackFrame)
+    .find(
+      (location) =>
+        location && location.file !== __filename && !location.file.startsWith("node:") && !EXPRESS_FILE_PATTERN.test(location.file)
+    );
+}
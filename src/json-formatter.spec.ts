@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import express from "express";
+import { jsonFormatter, toRouteInventory, ROUTES_SCHEMA_URL, ROUTES_SCHEMA_VERSION } from "./json-formatter";
+import { extractRoutes } from "./extract-routes";
+import { formatRoutes } from "./print-routes";
+import { describe as describeRoute } from "./describe";
+import { RouteInfo } from "./types";
+
+const schema = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "schema", "routes.schema.json"), "utf8"));
+
+describe("toRouteInventory", () => {
+  function requireAuth(req: any, res: any, next: any) {
+    next();
+  }
+
+  const createRoutes = () => {
+    const app = express();
+
+    app.use(requireAuth);
+    app.get("/api/users/:id", describeRoute({ summary: "Get a user", tags: ["users"] }), (req, res) => res.send("User"));
+
+    return extractRoutes(app, {
+      protectionMiddlewareName: "requireAuth",
+      protectionRules: [{ path: "/api/**", protected: true, roles: ["admin"] }],
+    });
+  };
+
+  it("should describe the schema and the app", () => {
+    const inventory = toRouteInventory([], { name: "billing", version: "1.2.0" });
+
+    expect(inventory).toEqual({
+      $schema: ROUTES_SCHEMA_URL,
+      schemaVersion: ROUTES_SCHEMA_VERSION,
+      generatedAt: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/),
+      app: { name: "billing", version: "1.2.0" },
+      routes: [],
+    });
+  });
+
+  it("should serialize routes without middleware functions", () => {
+    const [route] = toRouteInventory(createRoutes()).routes;
+
+    expect(route).toEqual({
+      method: "GET",
+      path: "/api/users/:id",
+      domain: "users",
+      params: [{ name: "id", optional: false, wildcard: false }],
+      protected: true,
+      protection: { scheme: "auth", roles: [], scopes: [], sources: ["requireAuth"] },
+      protectionMismatch: { rule: "/api/**", issues: ["missing roles admin"] },
+      middlewares: [
+        expect.objectContaining({ name: "describedMiddleware", scope: "route" }),
+        { name: "<anonymous>", scope: "route", isAnonymous: true, isAsync: false, isErrorHandler: false, arity: 2, location: null },
+      ],
+      inheritedMiddlewares: [expect.objectContaining({ name: "requireAuth", scope: "app", arity: 3 })],
+      location: null,
+      metadata: { summary: "Get a user", tags: ["users"] },
+    });
+    expect(JSON.parse(JSON.stringify(route))).toEqual(route);
+  });
+
+  it("should use null for missing protection and locations", () => {
+    const route: RouteInfo = { method: "GET", path: "/health", protected: false, middlewares: [], inheritedMiddlewares: [], metadata: {} };
+
+    expect(toRouteInventory([route]).routes[0]).toEqual(
+      expect.objectContaining({ domain: "root", params: [], protection: null, protectionMismatch: null, location: null })
+    );
+  });
+});
+
+describe("jsonFormatter", () => {
+  const routes: RouteInfo[] = [
+    { method: "GET", path: "/health", protected: false, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+  ];
+
+  it("should be available as the json format", () => {
+    const output = JSON.parse(formatRoutes(routes, { format: "json", appInfo: { name: "api" } }));
+
+    expect(output.app).toEqual({ name: "api" });
+    expect(output.routes.map((route: any) => route.path)).toEqual(["/health"]);
+  });
+
+  it("should set the domain of the routes with the groupBy strategy", () => {
+    const output = JSON.parse(formatRoutes(routes, { format: "json", groupBy: () => "monitoring" }));
+
+    expect(output.routes[0].domain).toBe("monitoring");
+  });
+
+  it("should indent the document", () => {
+    expect(jsonFormatter.format(routes, {}).split("\n")).toContain(`  "schemaVersion": "${ROUTES_SCHEMA_VERSION}",`);
+  });
+});
+
+describe("routes.schema.json", () => {
+  it("should match the current schema version and URL", () => {
+    expect(schema.$id).toBe(ROUTES_SCHEMA_URL);
+    expect(schema.properties.schemaVersion.const).toBe(ROUTES_SCHEMA_VERSION);
+  });
+
+  it("should list every field of the output", () => {
+    const route: RouteInfo = {
+      method: "GET",
+      path: "/files/:id(\\d+)",
+      protected: true,
+      protection: { scheme: "bearer", roles: [], scopes: [], sources: ["checkJwt"] },
+      middlewares: [],
+      inheritedMiddlewares: [],
+      metadata: {},
+    };
+    const inventory = toRouteInventory([route]);
+
+    expect(Object.keys(inventory).sort()).toEqual([...schema.required].sort());
+    expect(Object.keys(inventory.routes[0]).sort()).toEqual([...schema.$defs.route.required].sort());
+    expect(Object.keys(inventory.routes[0].params[0]).every((key) => key in schema.$defs.param.properties)).toBe(true);
+    expect(Object.keys(inventory.routes[0].protection!).sort()).toEqual([...schema.$defs.protection.required].sort());
+  });
+});
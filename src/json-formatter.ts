@@ -0,0 +1,75 @@
+import { AppInfo, Formatter, GroupBy, MiddlewareInfo, RouteInfo, RouteInventory, SerializedMiddleware, SerializedRoute } from "./types";
+import { extractPathParams } from "./extract-routes.utils";
+import { getRouteGroup } from "./route-groups";
+
+/**
+ * Version of the JSON output schema
+ * Bumped in major for breaking changes, in minor for new optional fields
+ */
+export const ROUTES_SCHEMA_VERSION = "1.0.0";
+
+/**
+ * URL of the JSON Schema describing the JSON output, published as `schema/routes.schema.json`
+ */
+export const ROUTES_SCHEMA_URL = "https://raw.githubusercontent.com/kevinley/express-route-visualizer/main/schema/routes.schema.json";
+
+/**
+ * Renders routes as a JSON document following `schema/routes.schema.json`
+ */
+export const jsonFormatter: Formatter = {
+  format: (routes, options) => JSON.stringify(toRouteInventory(routes, options.appInfo, options.groupBy), null, 2),
+};
+
+/**
+ * Convert routes to a serializable inventory, without middleware functions
+ *
+ * @param routes - Array of route information
+ * @param appInfo - Information about the application
+ * @param groupBy - How the `domain` of the routes is computed, "domain" by default
+ * @returns The inventory described by `schema/routes.schema.json`
+ */
+export function toRouteInventory(routes: RouteInfo[], appInfo: AppInfo = {}, groupBy?: GroupBy): RouteInventory {
+  return {
+    $schema: ROUTES_SCHEMA_URL,
+    schemaVersion: ROUTES_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    app: appInfo,
+    routes: routes.map((route) => serializeRoute(route, groupBy)),
+  };
+}
+
+/**
+ * Convert a route to its serializable form
+ */
+export function serializeRoute(route: RouteInfo, groupBy?: GroupBy): SerializedRoute {
+  return {
+    method: route.method,
+    path: route.path,
+    domain: getRouteGroup(route, groupBy),
+    params: extractPathParams(route.path),
+    protected: route.protected,
+    protection: route.protection || null,
+    protectionMismatch: route.protectionMismatch
+      ? { rule: route.protectionMismatch.rule.path, issues: route.protectionMismatch.issues }
+      : null,
+    middlewares: route.middlewares.map(serializeMiddleware),
+    inheritedMiddlewares: route.inheritedMiddlewares.map(serializeMiddleware),
+    location: route.location || null,
+    metadata: route.metadata,
+  };
+}
+
+/**
+ * Convert a middleware descriptor to its serializable form
+ */
+function serializeMiddleware(middleware: MiddlewareInfo): SerializedMiddleware {
+  return {
+    name: middleware.name,
+    scope: middleware.scope,
+    isAnonymous: middleware.isAnonymous,
+    isAsync: middleware.isAsync,
+    isErrorHandler: middleware.isErrorHandler,
+    arity: middleware.arity,
+    location: middleware.location || null,
+  };
+}
@@ -0,0 +1,118 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { markdownFormatter, replaceMarkdownBlock, updateMarkdownFile } from "./markdown-formatter";
+import { formatRoutes } from "./print-routes";
+import { createRoute } from "./test-utils";
+
+describe("markdownFormatter", () => {
+  it("should render one table per domain", () => {
+    const output = formatRoutes(
+      [
+        createRoute("POST", "/api/users"),
+        createRoute("GET", "/health"),
+        createRoute("GET", "/api/users/:id", {
+          protected: true,
+          protection: { scheme: "bearer", roles: ["admin"], scopes: [], sources: ["requireAuth"] },
+        }),
+      ],
+      { format: "markdown" }
+    );
+
+    expect(output).toBe(
+      [
+        "## Root",
+        "",
+        "| Method | Path | Protection |",
+        "| --- | --- | --- |",
+        "| GET | `/health` | Public |",
+        "",
+        "## Users",
+        "",
+        "| Method | Path | Protection |",
+        "| --- | --- | --- |",
+        "| GET | `/api/users/:id` | Protected (bearer roles:admin) |",
+        "| POST | `/api/users` | Public |",
+      ].join("\n")
+    );
+  });
+
+  it("should describe protection mismatches and strike through deprecated routes", () => {
+    const output = markdownFormatter.format(
+      [
+        createRoute("DELETE", "/api/users/:id", {
+          metadata: { deprecated: true },
+          protectionMismatch: { rule: { path: "/api/**", protected: true }, issues: ["expected protected, no protection detected"] },
+        }),
+      ],
+      {}
+    );
+
+    expect(output).toContain("| DELETE | ~~`/api/users/:id`~~ | Public, mismatch: expected protected, no protection detected |");
+  });
+
+  it("should add the optional columns and escape cell separators", () => {
+    const output = markdownFormatter.format(
+      [
+        createRoute("GET", "/api/files/:name(a|b)", {
+          location: { file: path.join(process.cwd(), "src", "files.ts"), line: 3, column: 5 },
+          metadata: { summary: "Get a file\nby name", tags: ["files"] },
+        }),
+      ],
+      { showLocation: true, showSummary: true }
+    );
+
+    expect(output.split("\n").slice(2)).toEqual([
+      "| Method | Path | Protection | Location | Summary |",
+      "| --- | --- | --- | --- | --- |",
+      `| GET | \`/api/files/:name(a\\|b)\` | Public | ${path.join("src", "files.ts")}:3:5 | Get a file by name [files] |`,
+    ]);
+  });
+
+  it("should tell when no routes match", () => {
+    expect(markdownFormatter.format([], {})).toBe("_No routes found matching your criteria_");
+  });
+});
+
+describe("replaceMarkdownBlock", () => {
+  const readme = ["# API", "", "<!-- routes:start -->", "old routes", "<!-- routes:end -->", "", "## License", ""].join("\n");
+
+  it("should replace the content between the markers", () => {
+    expect(replaceMarkdownBlock(readme, "## Users\n")).toBe(
+      ["# API", "", "<!-- routes:start -->", "", "## Users", "", "<!-- routes:end -->", "", "## License", ""].join("\n")
+    );
+  });
+
+  it("should use the given marker name", () => {
+    const markdown = "<!-- api:start --><!-- api:end -->";
+
+    expect(replaceMarkdownBlock(markdown, "routes", "api")).toBe("<!-- api:start -->\n\nroutes\n\n<!-- api:end -->");
+  });
+
+  it("should throw when the markers are missing", () => {
+    expect(() => replaceMarkdownBlock("# API\n<!-- routes:end -->\n<!-- routes:start -->", "routes")).toThrow(
+      /Markdown block "routes" not found\. Add <!-- routes:start --> and <!-- routes:end -->/
+    );
+  });
+});
+
+describe("updateMarkdownFile", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "routes-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should update the file in place and tell whether it changed", () => {
+    const file = path.join(directory, "README.md");
+    fs.writeFileSync(file, "# API\n\n<!-- routes:start -->\n<!-- routes:end -->\n");
+
+    expect(updateMarkdownFile(file, "## Users")).toBe(true);
+    expect(fs.readFileSync(file, "utf8")).toBe("# API\n\n<!-- routes:start -->\n\n## Users\n\n<!-- routes:end -->\n");
+    expect(updateMarkdownFile(file, "## Users")).toBe(false);
+  });
+});
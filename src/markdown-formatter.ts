@@ -0,0 +1,109 @@
+import fs from "fs";
+import { Formatter, FormatRoutesOptions, RouteInfo } from "./types";
+import { groupRoutes } from "./route-groups";
+import { formatLocation, formatProtectionDetails, formatSummary } from "./print-routes.utils";
+
+/**
+ * Renders routes as GitHub-flavored Markdown, with one section and table per domain
+ */
+export const markdownFormatter: Formatter = {
+  format: formatMarkdown,
+};
+
+/**
+ * Replace the content between the `<!-- routes:start -->` and `<!-- routes:end -->` markers of a Markdown document
+ *
+ * @param markdown - The Markdown document
+ * @param content - The new content of the block, like the output of the markdown format
+ * @param marker - Name used in the markers, "routes" by default
+ * @returns The updated document
+ */
+export function replaceMarkdownBlock(markdown: string, content: string, marker = "routes"): string {
+  const start = `<!-- ${marker}:start -->`;
+  const end = `<!-- ${marker}:end -->`;
+  const startIndex = markdown.indexOf(start);
+  const endIndex = markdown.indexOf(end, startIndex);
+
+  if (startIndex === -1 || endIndex === -1) {
+    throw new Error(`Markdown block "${marker}" not found. Add ${start} and ${end} lines where the routes should go`);
+  }
+
+  return `${markdown.slice(0, startIndex + start.length)}\n\n${content.trim()}\n\n${markdown.slice(endIndex)}`;
+}
+
+/**
+ * Replace the content of a delimited block in a Markdown file, like a README
+ *
+ * @param file - Path of the Markdown file
+ * @param content - The new content of the block
+ * @param marker - Name used in the `<!-- marker:start -->` and `<!-- marker:end -->` markers, "routes" by default
+ * @returns Whether the file changed
+ */
+export function updateMarkdownFile(file: string, content: string, marker = "routes"): boolean {
+  const markdown = fs.readFileSync(file, "utf8");
+  const updated = replaceMarkdownBlock(markdown, content, marker);
+
+  if (updated === markdown) return false;
+
+  fs.writeFileSync(file, updated);
+  return true;
+}
+
+/**
+ * Format routes as Markdown sections grouped by domain
+ */
+function formatMarkdown(routes: RouteInfo[], options: FormatRoutesOptions): string {
+  const { showLocation = false, showSummary = false } = options;
+
+  if (routes.length === 0) {
+    return "_No routes found matching your criteria_";
+  }
+
+  const columns = [
+    { header: "Method", enabled: true, format: (route: RouteInfo) => route.method },
+    { header: "Path", enabled: true, format: formatPath },
+    { header: "Protection", enabled: true, format: formatProtection },
+    { header: "Location", enabled: showLocation, format: (route: RouteInfo) => formatLocation(route.location) },
+    { header: "Summary", enabled: showSummary, format: (route: RouteInfo) => formatSummary(route.metadata) },
+  ].filter((column) => column.enabled);
+
+  return groupRoutes(routes, options.groupBy, options.sortBy)
+    .map((group) =>
+      [
+        `## ${group.name}`,
+        "",
+        formatRow(columns.map((column) => column.header)),
+        formatRow(columns.map(() => "---")),
+        ...group.routes.map((route) => formatRow(columns.map((column) => column.format(route)))),
+      ].join("\n")
+    )
+    .join("\n\n");
+}
+
+/**
+ * Format a table row, escaping the cell separator
+ */
+function formatRow(cells: string[]): string {
+  return `| ${cells.map((cell) => cell.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")).join(" | ")} |`;
+}
+
+/**
+ * Format the path as code, struck through for deprecated routes
+ */
+function formatPath(route: RouteInfo): string {
+  const code = `\`${route.path}\``;
+
+  return route.metadata?.deprecated ? `~~${code}~~` : code;
+}
+
+/**
+ * Describe the protection of a route in words
+ * @example Protected (bearer roles:admin), mismatch: missing scopes users:write
+ */
+function formatProtection(route: RouteInfo): string {
+  const details = formatProtectionDetails(route.protection);
+  const status = route.protected ? "Protected" : "Public";
+  const mismatch = route.protectionMismatch ? `, mismatch: ${route.protectionMismatch.issues.join("; ")}` : "";
+
+  return `${status}${details ? ` (${details})` : ""}${mismatch}`;
+}
@@ -0,0 +1,189 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import express, { Router } from "express";
+import { createRouteMatchers } from "./matchers";
+import { extractRoutes } from "./extract-routes";
+import { RouteMatchers } from "./types";
+
+const matchers = createRouteMatchers({ protectionMiddlewareName: "requireAuth" });
+
+expect.extend(matchers);
+
+// The matchers are not declared on the Jest types of this project
+const expectRoutes = expect as unknown as (received: unknown) => RouteMatchers<void> & { not: RouteMatchers<void> };
+
+function requireAuth(req: any, res: any, next: any) {
+  next();
+}
+
+function rateLimit(req: any, res: any, next: any) {
+  next();
+}
+
+const createApp = () => {
+  const app = express();
+  const usersRouter = Router();
+
+  usersRouter.use(requireAuth);
+  usersRouter.get("/:userId", rateLimit, function getUser(req, res) {
+    res.send("User");
+  });
+  usersRouter.delete("/:userId", (req, res) => res.send("Deleted"));
+
+  app.use("/api/users", usersRouter);
+  app.get("/api/health", (req, res) => res.send("OK"));
+
+  return app;
+};
+
+describe("toHaveRoute", () => {
+  const app = createApp();
+
+  it("should find routes by method and path", () => {
+    expectRoutes(app).toHaveRoute("GET", "/api/users/:userId");
+    expectRoutes(app).toHaveRoute("get", "/api/health");
+    expectRoutes(app).toHaveRoute("DELETE /api/users/:userId");
+    expectRoutes(app).not.toHaveRoute("POST", "/api/health");
+  });
+
+  it("should accept extracted routes", () => {
+    expectRoutes(extractRoutes(app)).toHaveRoute("GET", "/api/health");
+  });
+
+  it("should list near-miss routes when the route is missing", () => {
+    expect(() => expectRoutes(app).toHaveRoute("GET", "/api/users/:id")).toThrow(
+      [
+        "Expected routes to include GET /api/users/:id",
+        "",
+        "Similar routes:",
+        "  GET /api/users/:userId",
+        "  DELETE /api/users/:userId",
+      ].join("\n")
+    );
+    expect(() => expectRoutes(app).toHaveRoute("GET", "/internal/jobs/queue")).toThrow("No similar routes among the 3 routes");
+  });
+
+  it("should fail when a route is unexpectedly present", () => {
+    expect(() => expectRoutes(app).not.toHaveRoute("GET /api/health")).toThrow("Expected routes not to include GET /api/health");
+  });
+
+  it("should reject invalid routes and values", () => {
+    expect(() => expectRoutes(app).toHaveRoute("/api/health")).toThrow(
+      `Invalid route ${JSON.stringify("/api/health")}. Pass a method and a path, or a ${JSON.stringify("METHOD /path")} string`
+    );
+    expect(() => expectRoutes("app").toHaveRoute("GET /")).toThrow("Expected an Express app, routes or a route, received string");
+    expect(() => expectRoutes(null).toHaveRoute("GET /")).toThrow("received null");
+  });
+});
+
+describe("toBeProtectedRoute", () => {
+  const app = createApp();
+
+  it("should check the protection of a route", () => {
+    expectRoutes(app).toBeProtectedRoute("GET", "/api/users/:userId");
+    expectRoutes(app).not.toBeProtectedRoute("GET /api/health");
+  });
+
+  it("should check extracted routes", () => {
+    const [route] = extractRoutes(app, { protectionMiddlewareName: "requireAuth", includeFilter: (r) => r.method === "DELETE" });
+
+    expectRoutes(route).toBeProtectedRoute();
+  });
+
+  it("should explain the failures", () => {
+    expect(() => expectRoutes(app).toBeProtectedRoute("GET", "/api/health")).toThrow(
+      "Expected GET /api/health to be protected, but it is public\n\nMiddleware chain: <anonymous>"
+    );
+    expect(() => expectRoutes(app).not.toBeProtectedRoute("GET", "/api/users/:userId")).toThrow(
+      "Expected GET /api/users/:userId not to be protected, but it is protected (by requireAuth)"
+    );
+  });
+
+  it("should fail with near misses when the route is missing", () => {
+    expect(() => expectRoutes(app).not.toBeProtectedRoute("POST", "/api/users/:userId")).toThrow(
+      "Route POST /api/users/:userId not found\n\nSimilar routes:\n  GET /api/users/:userId"
+    );
+  });
+});
+
+describe("toHaveMiddleware", () => {
+  const app = createApp();
+
+  it("should check the inherited and route middleware", () => {
+    expectRoutes(app).toHaveMiddleware("GET /api/users/:userId", "rateLimit");
+    expectRoutes(app).toHaveMiddleware("GET /api/users/:userId", "requireAuth");
+    expectRoutes(app).not.toHaveMiddleware("DELETE /api/users/:userId", "rateLimit");
+  });
+
+  it("should show the chain and suggest similar names", () => {
+    expect(() => expectRoutes(app).toHaveMiddleware("GET /api/users/:userId", "ratelimiter")).toThrow(
+      "Expected GET /api/users/:userId to have middleware ratelimiter, did you mean rateLimit?\n\nMiddleware chain: requireAuth → rateLimit → getUser"
+    );
+    expect(() => expectRoutes(app).not.toHaveMiddleware("GET /api/users/:userId", "rateLimit")).toThrow(
+      "Expected GET /api/users/:userId not to have middleware rateLimit"
+    );
+  });
+});
+
+describe("toMatchRouteSnapshot", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "routes-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should write the snapshot on the first run and compare it afterwards", () => {
+    const file = path.join(directory, "snapshots", "app.routes.json");
+    const app = createApp();
+
+    // Jest does not write new snapshots in CI
+    expect(matchers.toMatchRouteSnapshot.call({ snapshotState: { _updateSnapshot: "new" } }, app, file).message()).toBe(
+      `Route snapshot ${file} written`
+    );
+    expect(fs.existsSync(file)).toBe(true);
+    expectRoutes(app).toMatchRouteSnapshot(file);
+
+    app.post("/api/sessions", (req, res) => res.send("Created"));
+
+    expect(() => expectRoutes(app).toMatchRouteSnapshot(file)).toThrow(
+      /Expected routes to match the snapshot .*\n\nNon-breaking changes:\n {2}\+ POST \/api\/sessions {2}Route added \(public\)\n\nRun the tests with -u/
+    );
+  });
+
+  it("should name the snapshot after the test", () => {
+    const testPath = path.join(directory, "users.spec.ts");
+    const context = { testPath, currentTestName: "users > has the routes", snapshotState: { _updateSnapshot: "new" as const } };
+
+    expect(matchers.toMatchRouteSnapshot.call(context, []).pass).toBe(true);
+    expect(fs.existsSync(path.join(directory, "__snapshots__", "users.spec.ts.users-has-the-routes.routes.json"))).toBe(true);
+    expect(() => matchers.toMatchRouteSnapshot.call({}, [])).toThrow("The test file is unknown");
+  });
+
+  it("should update the snapshot with -u and fail on missing snapshots in CI", () => {
+    const file = path.join(directory, "app.routes.json");
+    const app = createApp();
+
+    const ci = matchers.toMatchRouteSnapshot.call({ snapshotState: { _updateSnapshot: "none" } }, app, file);
+    expect(ci.pass).toBe(false);
+    expect(ci.message()).toBe(`Route snapshot ${file} does not exist, run the tests with -u to write it`);
+
+    matchers.toMatchRouteSnapshot.call({}, app, file);
+    app.post("/api/users", (req, res) => res.send("Created"));
+
+    const update = matchers.toMatchRouteSnapshot.call({ snapshotState: { _updateSnapshot: "all" } }, app, file);
+    expect(update.pass).toBe(true);
+    expect(update.message()).toBe(`Route snapshot ${file} updated`);
+    expectRoutes(app).toMatchRouteSnapshot(file);
+  });
+
+  it("should not support .not", () => {
+    expect(() => expectRoutes([]).not.toMatchRouteSnapshot(path.join(directory, "routes.json"))).toThrow(
+      "toMatchRouteSnapshot cannot be used with .not"
+    );
+  });
+});
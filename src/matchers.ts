@@ -0,0 +1,256 @@
+import fs from "fs";
+import path from "path";
+import { DisplayRoutesConfig, RouteInfo } from "./types";
+import { extractRoutes } from "./extract-routes";
+import { formatProtectionDetails } from "./print-routes.utils";
+import { diffRoutes, formatRouteDiff, readRouteSnapshot, writeRouteSnapshot } from "./route-diff";
+
+/**
+ * The parts of the Jest and Vitest matcher context the route matchers use
+ */
+interface MatcherContext {
+  isNot?: boolean;
+  testPath?: string;
+  currentTestName?: string;
+  snapshotState?: { _updateSnapshot?: "all" | "new" | "none" };
+}
+
+/**
+ * Result of a matcher, as expected by Jest and Vitest
+ */
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Maximum number of near-miss routes listed in failure messages
+ */
+const MAX_NEAR_MISSES = 5;
+
+/**
+ * Create the route matchers, to be registered with `expect.extend`
+ * @example expect.extend(createRouteMatchers({ protectionMiddlewareName: "checkJwt" }))
+ *
+ * The matchers accept an Express app, extracted with the given configuration, a list of routes or a single route.
+ *
+ * @param config - Protection detection and filter options used to extract the routes of apps
+ * @returns The matchers
+ */
+export function createRouteMatchers(config: DisplayRoutesConfig = {}) {
+  return {
+    toHaveRoute(this: MatcherContext, received: unknown, method: string, routePath?: string): MatcherResult {
+      const routes = resolveRoutes(received, config);
+      const target = parseRoute(method, routePath);
+      const pass = findRoute(routes, target) !== undefined;
+
+      return {
+        pass,
+        message: () =>
+          pass
+            ? `Expected routes not to include ${target.method} ${target.path}`
+            : `Expected routes to include ${target.method} ${target.path}\n\n${formatNearMisses(routes, target)}`,
+      };
+    },
+
+    toBeProtectedRoute(this: MatcherContext, received: unknown, method?: string, routePath?: string): MatcherResult {
+      const route = method === undefined && isRoute(received) ? received : getRoute(resolveRoutes(received, config), method, routePath);
+      const name = `${route.method} ${route.path}`;
+      const details = [
+        formatProtectionDetails(route.protection),
+        route.protection?.sources.length && `by ${route.protection.sources.join(", ")}`,
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+      return {
+        pass: route.protected,
+        message: () =>
+          route.protected
+            ? `Expected ${name} not to be protected, but it is protected${details ? ` (${details})` : ""}`
+            : `Expected ${name} to be protected, but it is public\n\nMiddleware chain: ${formatChain(getChain(route))}`,
+      };
+    },
+
+    toHaveMiddleware(this: MatcherContext, received: unknown, routeName: string, middleware: string): MatcherResult {
+      const route = getRoute(resolveRoutes(received, config), routeName);
+      const chain = getChain(route);
+      const pass = chain.includes(middleware);
+      const similar = chain.filter((name) => name !== middleware && getDistance(name.toLowerCase(), middleware.toLowerCase()) <= 3);
+      const suggestion = similar.length > 0 ? `, did you mean ${similar.join(" or ")}?` : "";
+
+      return {
+        pass,
+        message: () =>
+          (pass
+            ? `Expected ${route.method} ${route.path} not to have middleware ${middleware}`
+            : `Expected ${route.method} ${route.path} to have middleware ${middleware}${suggestion}`) +
+          `\n\nMiddleware chain: ${formatChain(chain)}`,
+      };
+    },
+
+    toMatchRouteSnapshot(this: MatcherContext, received: unknown, file?: string): MatcherResult {
+      if (this.isNot) {
+        throw new Error("toMatchRouteSnapshot cannot be used with .not");
+      }
+
+      const routes = resolveRoutes(received, config);
+      const snapshotFile = file ?? getSnapshotFile(this);
+      const update = this.snapshotState?._updateSnapshot ?? "new";
+
+      if (!fs.existsSync(snapshotFile)) {
+        if (update === "none") {
+          return { pass: false, message: () => `Route snapshot ${snapshotFile} does not exist, run the tests with -u to write it` };
+        }
+
+        fs.mkdirSync(path.dirname(snapshotFile), { recursive: true });
+        writeRouteSnapshot(snapshotFile, routes);
+        return { pass: true, message: () => `Route snapshot ${snapshotFile} written` };
+      }
+
+      const diff = diffRoutes(readRouteSnapshot(snapshotFile), routes);
+
+      if (diff.changes.length > 0 && update === "all") {
+        writeRouteSnapshot(snapshotFile, routes);
+        return { pass: true, message: () => `Route snapshot ${snapshotFile} updated` };
+      }
+
+      return {
+        pass: diff.changes.length === 0,
+        message: () =>
+          `Expected routes to match the snapshot ${snapshotFile}\n\n${formatRouteDiff(diff)}\n\nRun the tests with -u to update the snapshot`,
+      };
+    },
+  };
+}
+
+/**
+ * Route matchers with the default configuration
+ * @example expect.extend(routeMatchers)
+ */
+export const routeMatchers = createRouteMatchers();
+
+/**
+ * Get the routes of an app, a list of routes or a single route
+ */
+function resolveRoutes(received: unknown, config: DisplayRoutesConfig): RouteInfo[] {
+  if (Array.isArray(received)) return received;
+  if (isRoute(received)) return [received];
+  if (typeof received === "function") return extractRoutes(received, config);
+
+  throw new Error(`Expected an Express app, routes or a route, received ${received === null ? "null" : typeof received}`);
+}
+
+/**
+ * Check whether a value is an extracted route
+ */
+function isRoute(value: unknown): value is RouteInfo {
+  return typeof value === "object" && value !== null && "method" in value && "path" in value && "middlewares" in value;
+}
+
+/**
+ * Parse a route given as a method and a path, or as a "METHOD /path" string
+ */
+function parseRoute(method: string | undefined, routePath?: string): { method: string; path: string } {
+  if (routePath !== undefined) return { method: String(method).toUpperCase(), path: routePath };
+
+  const match = /^(\S+)\s+(\S+)$/.exec(method?.trim() ?? "");
+  if (!match) {
+    throw new Error(`Invalid route "${method}". Pass a method and a path, or a "METHOD /path" string`);
+  }
+
+  return { method: match[1].toUpperCase(), path: match[2] };
+}
+
+/**
+ * Find the first route with the method and path
+ */
+function findRoute(routes: RouteInfo[], target: { method: string; path: string }): RouteInfo | undefined {
+  return routes.find((route) => route.method === target.method && route.path === target.path);
+}
+
+/**
+ * Get a route, failing with the near misses when it does not exist
+ */
+function getRoute(routes: RouteInfo[], method: string | undefined, routePath?: string): RouteInfo {
+  const target = parseRoute(method, routePath);
+  const route = findRoute(routes, target);
+
+  if (!route) {
+    throw new Error(`Route ${target.method} ${target.path} not found\n\n${formatNearMisses(routes, target)}`);
+  }
+
+  return route;
+}
+
+/**
+ * List the routes closest to the expected one, ignoring parameter names
+ * @example GET /api/users/:id is close to GET /api/users/:userId, POST /api/users/:id and GET /api/user/:id
+ */
+function formatNearMisses(routes: RouteInfo[], target: { method: string; path: string }): string {
+  const normalize = (routePath: string) => routePath.replace(/:[\w$]+/g, ":");
+  const targetPath = normalize(target.path);
+  const maxDistance = Math.max(3, Math.floor(targetPath.length / 3));
+
+  const nearMisses = routes
+    .map((route) => ({
+      route,
+      distance: getDistance(normalize(route.path), targetPath) + (route.method === target.method ? 0 : 1),
+    }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_NEAR_MISSES);
+
+  if (nearMisses.length === 0) {
+    return `No similar routes among the ${routes.length} ${routes.length === 1 ? "route" : "routes"}`;
+  }
+
+  return ["Similar routes:", ...nearMisses.map(({ route }) => `  ${route.method} ${route.path}`)].join("\n");
+}
+
+/**
+ * Get the names of the middleware chain of a route, inherited middleware first and the handler last
+ */
+function getChain(route: RouteInfo): string[] {
+  return [...route.inheritedMiddlewares, ...route.middlewares].map((middleware) => middleware.name);
+}
+
+/**
+ * Format a middleware chain
+ */
+function formatChain(chain: string[]): string {
+  return chain.length > 0 ? chain.join(" → ") : "none";
+}
+
+/**
+ * Get the default snapshot file of the current test, next to the Jest and Vitest snapshots
+ * @example users.spec.ts, "users routes" => __snapshots__/users.spec.ts.users-routes.routes.json
+ */
+function getSnapshotFile(context: MatcherContext): string {
+  if (!context.testPath) {
+    throw new Error("The test file is unknown, pass the snapshot file to toMatchRouteSnapshot");
+  }
+
+  const testName = (context.currentTestName || "routes").replace(/[^\w-]+/g, "-").replace(/^-|-$/g, "");
+
+  return path.join(path.dirname(context.testPath), "__snapshots__", `${path.basename(context.testPath)}.${testName}.routes.json`);
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function getDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
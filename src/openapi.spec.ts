@@ -0,0 +1,216 @@
+import express from "express";
+import { toOpenAPI, routesToOpenAPI, formatOpenAPI } from "./openapi";
+import { describe as describeRoute } from "./describe";
+import { itExpress4, itExpress5, createRoute } from "./test-utils";
+
+describe("routesToOpenAPI", () => {
+  it("should create an OpenAPI 3.1 document with info from the app", () => {
+    const document = routesToOpenAPI([], { appInfo: { name: "billing", version: "2.0.0" }, info: { description: "Billing API" } });
+
+    expect(document).toEqual({
+      openapi: "3.1.0",
+      info: { title: "billing", version: "2.0.0", description: "Billing API" },
+      tags: [],
+      paths: {},
+    });
+  });
+
+  it("should convert path parameters to templates and declare them", () => {
+    const document = routesToOpenAPI([createRoute("GET", "/api/users/:id(\\d+)/posts/:postId")]);
+
+    expect(Object.keys(document.paths)).toEqual(["/api/users/{id}/posts/{postId}"]);
+    expect(document.paths["/api/users/{id}/posts/{postId}"].get).toEqual({
+      operationId: "getApiUsersByIdPostsByPostId",
+      tags: ["Users"],
+      parameters: [
+        { name: "id", in: "path", required: true, schema: { type: "string", pattern: "^\\d+$" } },
+        { name: "postId", in: "path", required: true, schema: { type: "string" } },
+      ],
+      responses: { default: { description: "Default response" } },
+    });
+  });
+
+  it("should create one path per variant of optional parameters", () => {
+    const document = routesToOpenAPI([createRoute("GET", "/reports/:year/:format?"), createRoute("GET", "/files{/:name}")]);
+
+    expect(Object.keys(document.paths)).toEqual(["/reports/{year}/{format}", "/reports/{year}", "/files/{name}", "/files"]);
+    expect(document.paths["/reports/{year}"].get.operationId).toBe("getReportsByYear");
+    expect(document.paths["/files"].get.parameters).toBeUndefined();
+  });
+
+  it("should name wildcards", () => {
+    const document = routesToOpenAPI([createRoute("GET", "/static/*"), createRoute("GET", "/assets/*path")]);
+
+    expect(Object.keys(document.paths)).toEqual(["/static/{0}", "/assets/{path}"]);
+    expect(document.paths["/assets/{path}"].get.parameters).toEqual([
+      { name: "path", in: "path", required: true, schema: { type: "string" }, description: "Matches one or more path segments" },
+    ]);
+  });
+
+  it("should tag operations with their domain and use route metadata", () => {
+    const document = routesToOpenAPI([
+      createRoute("GET", "/api/orders", { metadata: { summary: "List orders", description: "Newest first", deprecated: "Use v2" } }),
+      createRoute("POST", "/health"),
+    ]);
+
+    expect(document.tags).toEqual([{ name: "Orders" }, { name: "Root" }]);
+    expect(document.paths["/api/orders"].get).toEqual(
+      expect.objectContaining({ summary: "List orders", description: "Newest first", tags: ["Orders"], deprecated: true })
+    );
+    expect(document.paths["/health"].post.tags).toEqual(["Root"]);
+  });
+
+  it("should tag operations with the groupBy strategy", () => {
+    const document = routesToOpenAPI([createRoute("GET", "/v2/orders"), createRoute("GET", "/internal/jobs")], { groupBy: "path" });
+
+    expect(document.tags).toEqual([{ name: "Internal" }, { name: "V2" }]);
+    expect(document.paths["/v2/orders"].get.tags).toEqual(["V2"]);
+  });
+
+  it("should skip methods OpenAPI cannot describe and duplicate registrations", () => {
+    const document = routesToOpenAPI([
+      createRoute("GET", "/users", { metadata: { summary: "First" } }),
+      createRoute("GET", "/users", { metadata: { summary: "Second" } }),
+      createRoute("ALL", "/users"),
+      createRoute("PROPFIND", "/users"),
+    ]);
+
+    expect(document.paths["/users"]).toEqual({ get: expect.objectContaining({ summary: "First" }) });
+  });
+
+  it("should keep operation ids unique", () => {
+    const document = routesToOpenAPI([createRoute("GET", "/users-list"), createRoute("GET", "/users_list"), createRoute("GET", "/")]);
+
+    expect(document.paths["/users-list"].get.operationId).toBe("getUsersList");
+    expect(document.paths["/users_list"].get.operationId).toBe("getUsersList2");
+    expect(document.paths["/"].get.operationId).toBe("getRoot");
+  });
+
+  describe("Security", () => {
+    const protection = (scheme: string, scopes: string[] = []) => ({ scheme, roles: [], scopes, sources: ["requireAuth"] });
+
+    it("should require the default security scheme on protected routes", () => {
+      const document = routesToOpenAPI([
+        createRoute("GET", "/api/users", { protected: true, protection: protection("auth") }),
+        createRoute("GET", "/health"),
+      ]);
+
+      expect(document.paths["/api/users"].get.security).toEqual([{ bearerAuth: [] }]);
+      expect(document.paths["/health"].get.security).toBeUndefined();
+      expect(document.components).toEqual({ securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } } });
+    });
+
+    it("should use the security scheme named like the protection scheme, with its scopes", () => {
+      const securitySchemes = {
+        session: { type: "apiKey", in: "cookie", name: "sid" },
+        oauth: { type: "oauth2", flows: {} },
+      };
+      const document = routesToOpenAPI(
+        [
+          createRoute("GET", "/api/users", { protected: true, protection: protection("oauth", ["users:read"]) }),
+          createRoute("GET", "/api/orders", { protected: true, protection: protection("apiKey") }),
+          createRoute("GET", "/api/custom", { protected: true }),
+        ],
+        { securitySchemes, defaultSecurityScheme: "session" }
+      );
+
+      expect(document.paths["/api/users"].get.security).toEqual([{ oauth: ["users:read"] }]);
+      expect(document.paths["/api/orders"].get.security).toEqual([{ session: [] }]);
+      expect(document.paths["/api/custom"].get.security).toEqual([{ session: [] }]);
+      expect(document.components?.securitySchemes).toBe(securitySchemes);
+    });
+
+    it("should leave out components when no route is protected", () => {
+      expect(routesToOpenAPI([createRoute("GET", "/health")]).components).toBeUndefined();
+    });
+  });
+
+  describe("Fragments", () => {
+    it("should deep-merge fragments in order, replacing arrays", () => {
+      const document = routesToOpenAPI([createRoute("GET", "/api/users")], {
+        servers: [{ url: "https://staging.example.com" }],
+        fragments: [
+          {
+            servers: [{ url: "https://api.example.com" }],
+            paths: { "/api/users": { get: { responses: { "200": { description: "The users" } } } } },
+          },
+          { info: { title: "Users API" }, tags: [{ name: "Users", description: "User accounts" }] },
+        ],
+      });
+
+      expect(document.info).toEqual({ title: "Users API", version: "1.0.0" });
+      expect(document.servers).toEqual([{ url: "https://api.example.com" }]);
+      expect(document.tags).toEqual([{ name: "Users", description: "User accounts" }]);
+      expect(document.paths["/api/users"].get).toEqual({
+        operationId: "getApiUsers",
+        tags: ["Users"],
+        responses: { default: { description: "Default response" }, "200": { description: "The users" } },
+      });
+    });
+
+    it("should apply the transform last", () => {
+      const document = routesToOpenAPI([createRoute("GET", "/health")], {
+        fragments: [{ info: { title: "Health" } }],
+        transform: (doc) => ({ ...doc, "x-title": doc.info.title }),
+      });
+
+      expect(document["x-title"]).toBe("Health");
+    });
+  });
+});
+
+describe("toOpenAPI", () => {
+  function requireAuth(req: any, res: any, next: any) {
+    next();
+  }
+
+  it("should document the routes of an app with its protection and filters", () => {
+    const app = express();
+    const router = express.Router();
+
+    router.get("/:id", requireAuth, describeRoute({ summary: "Get a user" }), (req, res) => res.send("User"));
+    app.use("/api/users", router);
+    app.get("/internal/metrics", (req, res) => res.send("Metrics"));
+
+    const document = toOpenAPI(app, {
+      protectionMiddlewareName: "requireAuth",
+      excludeFilter: (route) => route.path.startsWith("/internal"),
+    });
+
+    expect(Object.keys(document.paths)).toEqual(["/api/users/{id}"]);
+    expect(document.paths["/api/users/{id}"].get).toEqual(
+      expect.objectContaining({ summary: "Get a user", tags: ["Users"], security: [{ bearerAuth: [] }] })
+    );
+  });
+
+  itExpress4("should expand Express 4 optional parameters", () => {
+    const app = express();
+    app.get("/exports/:format?", (req, res) => res.send("Export"));
+
+    expect(Object.keys(toOpenAPI(app).paths)).toEqual(["/exports/{format}", "/exports"]);
+  });
+
+  itExpress5("should expand Express 5 optional groups and wildcards", () => {
+    const app = express();
+    app.get("/exports{/:format}", (req, res) => res.send("Export"));
+    app.get("/files/*path", (req, res) => res.send("File"));
+
+    expect(Object.keys(toOpenAPI(app).paths)).toEqual(["/exports/{format}", "/exports", "/files/{path}"]);
+  });
+});
+
+describe("formatOpenAPI", () => {
+  const document = routesToOpenAPI([createRoute("GET", "/users/:id")], { appInfo: { name: "api" } });
+
+  it("should format JSON by default", () => {
+    expect(JSON.parse(formatOpenAPI(document))).toEqual(document);
+  });
+
+  it("should format YAML", () => {
+    const yaml = formatOpenAPI(document, "yaml");
+
+    expect(yaml.startsWith(`openapi: ${JSON.stringify("3.1.0")}\ninfo:\n  title: api\n`)).toBe(true);
+    expect(yaml).toContain("  /users/{id}:\n    get:\n      operationId: getUsersById\n");
+    expect(yaml).toContain("        - name: id\n          in: path\n          required: true\n");
+  });
+});
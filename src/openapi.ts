@@ -0,0 +1,204 @@
+import { OpenAPIDocument, OpenAPIOperation, OpenAPIOptions, RouteInfo } from "./types";
+import { extractRoutes } from "./extract-routes";
+import { detectExpressVersion, extractPathParams } from "./extract-routes.utils";
+import { formatDomainName, getRouteGroup } from "./route-groups";
+import { toYAML } from "./yaml";
+
+/**
+ * HTTP methods OpenAPI can describe
+ */
+const OPENAPI_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+/**
+ * Security scheme used when none is configured
+ */
+const DEFAULT_SECURITY_SCHEMES: Record<string, Record<string, unknown>> = {
+  bearerAuth: { type: "http", scheme: "bearer" },
+};
+
+/**
+ * Generate an OpenAPI 3.1 document from the routes of an Express application
+ *
+ * @param app - Express Application instance
+ * @param options - Document info, security schemes, fragments and the extraction options of `displayRoutes`
+ * @returns The OpenAPI document
+ */
+export function toOpenAPI(app: any, options: OpenAPIOptions = {}): OpenAPIDocument {
+  return routesToOpenAPI(extractRoutes(app, options), {
+    ...options,
+    appInfo: { expressVersion: detectExpressVersion(app), ...options.appInfo },
+  });
+}
+
+/**
+ * Generate an OpenAPI 3.1 document from extracted routes
+ *
+ * Express paths become path templates (`/users/:id` => `/users/{id}`), optional parameters
+ * produce one path per variant, operations are tagged with their domain group and protected
+ * routes require the configured security scheme.
+ *
+ * @param routes - Array of route information
+ * @param options - Document info, security schemes and fragments
+ * @returns The OpenAPI document
+ */
+export function routesToOpenAPI(routes: RouteInfo[], options: OpenAPIOptions = {}): OpenAPIDocument {
+  const { info = {}, servers, appInfo = {}, securitySchemes = DEFAULT_SECURITY_SCHEMES, fragments = [], transform } = options;
+  const defaultSecurityScheme = options.defaultSecurityScheme ?? Object.keys(securitySchemes)[0];
+
+  const paths: OpenAPIDocument["paths"] = {};
+  const tags = new Set<string>();
+  const operationIds = new Set<string>();
+  let hasProtectedRoutes = false;
+
+  routes.forEach((route) => {
+    const method = route.method.toLowerCase();
+    if (!OPENAPI_METHODS.includes(method)) return;
+
+    const tag = formatDomainName(getRouteGroup(route, options.groupBy));
+
+    expandOptionalSegments(route.path).forEach((expressPath) => {
+      const openAPIPath = toOpenAPIPath(expressPath);
+      const pathItem = paths[openAPIPath] || (paths[openAPIPath] = {});
+
+      // The same path and method may be registered twice, only the first one handles requests
+      if (pathItem[method]) return;
+
+      const operation: OpenAPIOperation = {
+        operationId: createOperationId(method, openAPIPath, operationIds),
+        ...(route.metadata.summary && { summary: route.metadata.summary }),
+        ...(route.metadata.description && { description: route.metadata.description }),
+        tags: [tag],
+        ...(route.metadata.deprecated && { deprecated: true }),
+        responses: { default: { description: "Default response" } },
+      };
+
+      const parameters = extractPathParams(expressPath).map((param) => ({
+        name: param.name,
+        in: "path",
+        required: true,
+        schema: { type: "string", ...(param.pattern && { pattern: `^${param.pattern}$` }) },
+        ...(param.wildcard && { description: "Matches one or more path segments" }),
+      }));
+      if (parameters.length > 0) operation.parameters = parameters;
+
+      if (route.protected) {
+        const protectionScheme = route.protection?.scheme;
+        const schemeName = protectionScheme && securitySchemes[protectionScheme] ? protectionScheme : defaultSecurityScheme;
+
+        operation.security = [{ [schemeName]: route.protection?.scopes || [] }];
+        hasProtectedRoutes = true;
+      }
+
+      pathItem[method] = operation;
+      tags.add(tag);
+    });
+  });
+
+  const document: OpenAPIDocument = {
+    openapi: "3.1.0",
+    info: { title: appInfo.name ?? "API", version: appInfo.version ?? "1.0.0", ...info },
+    ...(servers && { servers }),
+    tags: Array.from(tags)
+      .sort()
+      .map((name) => ({ name })),
+    paths,
+    ...(hasProtectedRoutes ? { components: { securitySchemes } } : {}),
+  };
+
+  const merged = fragments.reduce<OpenAPIDocument>((result, fragment) => mergeFragment(result, fragment), document);
+
+  return transform ? transform(merged) : merged;
+}
+
+/**
+ * Serialize an OpenAPI document
+ *
+ * @param document - The OpenAPI document
+ * @param format - "json" (default) or "yaml"
+ * @returns The serialized document
+ */
+export function formatOpenAPI(document: OpenAPIDocument, format: "json" | "yaml" = "json"): string {
+  return format === "yaml" ? toYAML(document) : JSON.stringify(document, null, 2);
+}
+
+/**
+ * List the paths matched by a route with optional parameters, longest first
+ * @example /users{/:id} => ["/users/:id", "/users"]
+ */
+function expandOptionalSegments(path: string): string[] {
+  // Express 5 optional groups, like {/:id}
+  const group = /\{([^{}]*)\}/.exec(path);
+  if (group) {
+    const before = path.slice(0, group.index);
+    const after = path.slice(group.index + group[0].length);
+
+    return [...expandOptionalSegments(before + group[1] + after), ...expandOptionalSegments(before + after)];
+  }
+
+  // Express 4 optional parameters, like /:format? or /:path*
+  const optional = /\/:([A-Za-z_$][\w$]*(?:\((?:[^()]|\([^()]*\))*\))?)[?*]/.exec(path);
+  if (optional) {
+    const before = path.slice(0, optional.index);
+    const after = path.slice(optional.index + optional[0].length);
+
+    return [...expandOptionalSegments(`${before}/:${optional[1]}${after}`), ...expandOptionalSegments(before + after)];
+  }
+
+  return [path || "/"];
+}
+
+/**
+ * Convert an Express path to an OpenAPI path template
+ * @example /files/:id(\d+)/*path => /files/{id}/{path}
+ */
+function toOpenAPIPath(path: string): string {
+  let unnamedIndex = 0;
+
+  return path
+    .replace(/:([A-Za-z_$][\w$]*)(?:\((?:[^()]|\([^()]*\))*\))?\+?/g, "{$1}")
+    .replace(/\*([A-Za-z_$][\w$]*)/g, "{$1}")
+    .replace(/\*/g, () => `{${unnamedIndex++}}`);
+}
+
+/**
+ * Create a unique operation id from the method and path
+ * @example get /api/users/{id} => getApiUsersById
+ */
+function createOperationId(method: string, path: string, operationIds: Set<string>): string {
+  const words = path
+    .split("/")
+    .filter(Boolean)
+    .flatMap((segment) => (segment.startsWith("{") ? ["by", segment.slice(1, -1)] : [segment]))
+    .flatMap((segment) => segment.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean);
+
+  const baseId = method + (words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join("") || "Root");
+
+  let operationId = baseId;
+  for (let suffix = 2; operationIds.has(operationId); suffix++) {
+    operationId = `${baseId}${suffix}`;
+  }
+  operationIds.add(operationId);
+
+  return operationId;
+}
+
+/**
+ * Deep-merge a fragment into a document, replacing arrays and other values
+ */
+function mergeFragment<T>(target: T, fragment: Record<string, unknown>): T {
+  const merged: Record<string, any> = { ...(target as Record<string, any>) };
+
+  Object.entries(fragment).forEach(([key, value]) => {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeFragment(merged[key], value) : value;
+  });
+
+  return merged as T;
+}
+
+/**
+ * Check if a value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,176 @@
+import express from "express";
+import { toPostmanCollection, routesToPostmanCollection } from "./postman";
+import { describe as describeRoute } from "./describe";
+import { itExpress4, itExpress5, createRoute } from "./test-utils";
+
+describe("routesToPostmanCollection", () => {
+  it("should create a v2.1 collection with a baseUrl variable", () => {
+    const collection = routesToPostmanCollection([], { appInfo: { name: "billing", version: "2.0.0" }, description: "Billing API" });
+
+    expect(collection).toEqual({
+      info: {
+        name: "billing",
+        description: "Billing API",
+        version: "2.0.0",
+        schema: "https://schema.getpostman.com/json/collection/v2.1.0/collection.json",
+      },
+      item: [],
+      variable: [{ key: "baseUrl", value: "http://localhost:3000", type: "string" }],
+    });
+  });
+
+  it("should prefer the configured name and base URL", () => {
+    const collection = routesToPostmanCollection([], { name: "QA", baseUrl: "https://staging.example.com", appInfo: { name: "api" } });
+
+    expect(collection.info.name).toBe("QA");
+    expect(collection.variable).toEqual([{ key: "baseUrl", value: "https://staging.example.com", type: "string" }]);
+  });
+
+  it("should group requests in one folder per domain", () => {
+    const collection = routesToPostmanCollection([
+      createRoute("GET", "/api/users"),
+      createRoute("GET", "/health"),
+      createRoute("POST", "/api/users", { metadata: { summary: "Create a user", description: "Sends a welcome email" } }),
+      createRoute("GET", "/api/orders"),
+    ]);
+
+    expect(collection.item.map((folder) => folder.name)).toEqual(["Orders", "Root", "Users"]);
+    expect(collection.item[2].item).toEqual([
+      {
+        name: "GET /api/users",
+        request: {
+          method: "GET",
+          header: [],
+          url: { raw: "{{baseUrl}}/api/users", host: ["{{baseUrl}}"], path: ["api", "users"] },
+          auth: { type: "noauth" },
+        },
+      },
+      {
+        name: "Create a user",
+        request: {
+          method: "POST",
+          description: "Sends a welcome email",
+          header: [],
+          url: { raw: "{{baseUrl}}/api/users", host: ["{{baseUrl}}"], path: ["api", "users"] },
+          auth: { type: "noauth" },
+        },
+      },
+    ]);
+  });
+
+  it("should name folders with the groupBy strategy", () => {
+    const collection = routesToPostmanCollection(
+      [createRoute("GET", "/invoices", { metadata: { tags: ["billing"] } }), createRoute("GET", "/health")],
+      { groupBy: "tag" }
+    );
+
+    expect(collection.item.map((folder) => folder.name)).toEqual(["Billing", "Untagged"]);
+  });
+
+  it("should turn path parameters into variables", () => {
+    const collection = routesToPostmanCollection([createRoute("GET", "/api/users/:id(\\d+)/posts/:postId?")]);
+
+    expect(collection.item[0].item[0].request.url).toEqual({
+      raw: "{{baseUrl}}/api/users/:id/posts/:postId",
+      host: ["{{baseUrl}}"],
+      path: ["api", "users", ":id", "posts", ":postId"],
+      variable: [
+        { key: "id", value: "", description: "must match \\d+" },
+        { key: "postId", value: "", description: "optional" },
+      ],
+    });
+  });
+
+  it("should name wildcards and drop optional groups", () => {
+    const collection = routesToPostmanCollection([createRoute("GET", "/static/*"), createRoute("GET", "/files{/:name}/*path")]);
+    const [staticFiles, files] = collection.item[0].item;
+
+    expect(staticFiles.request.url.raw).toBe("{{baseUrl}}/static/:0");
+    expect(files.request.url.raw).toBe("{{baseUrl}}/files/:name/:path");
+    expect(files.request.url.variable).toEqual([
+      { key: "name", value: "", description: "optional" },
+      { key: "path", value: "", description: "matches one or more path segments" },
+    ]);
+  });
+
+  it("should skip routes registered for all methods", () => {
+    const collection = routesToPostmanCollection([createRoute("_ALL", "/api/users", { protected: true }), createRoute("GET", "/")]);
+
+    expect(collection.item).toEqual([{ name: "Root", item: [expect.objectContaining({ name: "GET /" })] }]);
+    expect(collection.item[0].item[0].request.url).toEqual({ raw: "{{baseUrl}}/", host: ["{{baseUrl}}"], path: [] });
+    expect(collection.variable).toHaveLength(1);
+  });
+
+  describe("Authentication", () => {
+    it("should add a bearer token placeholder to protected routes", () => {
+      const collection = routesToPostmanCollection([createRoute("GET", "/api/users", { protected: true })]);
+
+      expect(collection.item[0].item[0].request.auth).toEqual({
+        type: "bearer",
+        bearer: [{ key: "token", value: "{{authToken}}", type: "string" }],
+      });
+      expect(collection.variable).toContainEqual({ key: "authToken", value: "", type: "string" });
+    });
+
+    it("should use the configured placeholder", () => {
+      const auth = { type: "apikey", apikey: [{ key: "key", value: "X-API-Key" }] };
+      const collection = routesToPostmanCollection([createRoute("GET", "/api/users", { protected: true })], { auth });
+
+      expect(collection.item[0].item[0].request.auth).toBe(auth);
+    });
+  });
+});
+
+describe("toPostmanCollection", () => {
+  function requireAuth(req: any, res: any, next: any) {
+    next();
+  }
+
+  it("should export the routes of an app with their protection", () => {
+    const app = express();
+    const router = express.Router();
+
+    router.get("/:id", requireAuth, describeRoute({ summary: "Get a user" }), (req, res) => res.send("User"));
+    app.use("/api/users", router);
+    app.get("/health", (req, res) => res.send("OK"));
+
+    const collection = toPostmanCollection(app, { protectionMiddlewareName: "requireAuth" });
+    const [root, users] = collection.item;
+
+    expect(root.item[0].request.auth).toEqual({ type: "noauth" });
+    expect(users.item[0]).toEqual(
+      expect.objectContaining({
+        name: "Get a user",
+        request: expect.objectContaining({ auth: expect.objectContaining({ type: "bearer" }) }),
+      })
+    );
+  });
+
+  it("should skip the routes of an app registered for all methods", () => {
+    const app = express();
+    const router = express.Router();
+
+    router.route("/users").all(requireAuth, (req, res) => res.send("Users"));
+    router.get("/status", (req, res) => res.send("OK"));
+    app.use("/api", router);
+
+    const collection = toPostmanCollection(app, { protectionMiddlewareName: "requireAuth" });
+
+    expect(collection.item[0].item.map((item) => item.name)).toEqual(["GET /api/status"]);
+    expect(collection.variable).toHaveLength(1);
+  });
+
+  itExpress4("should convert Express 4 wildcards", () => {
+    const app = express();
+    app.get("/files/*", (req, res) => res.send("File"));
+
+    expect(toPostmanCollection(app).item[0].item[0].request.url.path).toEqual(["files", ":0"]);
+  });
+
+  itExpress5("should convert Express 5 wildcards", () => {
+    const app = express();
+    app.get("/files/*path", (req, res) => res.send("File"));
+
+    expect(toPostmanCollection(app).item[0].item[0].request.url.path).toEqual(["files", ":path"]);
+  });
+});
@@ -0,0 +1,120 @@
+import { PostmanAuth, PostmanCollection, PostmanFolder, PostmanOptions, PostmanRequestItem, RouteInfo } from "./types";
+import { extractRoutes } from "./extract-routes";
+import { extractPathParams } from "./extract-routes.utils";
+import { formatDomainName, getRouteGroup } from "./route-groups";
+
+/**
+ * Schema of the Postman collection format v2.1
+ */
+const POSTMAN_SCHEMA_URL = "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+/**
+ * Authentication placeholder of protected routes unless configured
+ */
+const DEFAULT_AUTH: PostmanAuth = {
+  type: "bearer",
+  bearer: [{ key: "token", value: "{{authToken}}", type: "string" }],
+};
+
+/**
+ * Export the routes of an Express application as a Postman collection
+ *
+ * @param app - Express Application instance
+ * @param options - Collection info, base URL, authentication and the extraction options of `displayRoutes`
+ * @returns The Postman collection, ready to be written as JSON
+ */
+export function toPostmanCollection(app: any, options: PostmanOptions = {}): PostmanCollection {
+  return routesToPostmanCollection(extractRoutes(app, options), options);
+}
+
+/**
+ * Export extracted routes as a Postman collection
+ *
+ * Requests are grouped in one folder per group (see `groupBy`), their URLs start with the `{{baseUrl}}` variable,
+ * path parameters become Postman path variables and protected routes get the authentication placeholder.
+ *
+ * @param routes - Array of route information
+ * @param options - Collection info, base URL and authentication
+ * @returns The Postman collection
+ */
+export function routesToPostmanCollection(routes: RouteInfo[], options: PostmanOptions = {}): PostmanCollection {
+  const { appInfo = {}, baseUrl = "http://localhost:3000", auth = DEFAULT_AUTH } = options;
+  const folders = new Map<string, PostmanFolder>();
+
+  routes.forEach((route) => {
+    // Routes registered with all() are extracted as _ALL, which is not a request method Postman can send
+    if (route.method === "_ALL") return;
+
+    const name = formatDomainName(getRouteGroup(route, options.groupBy));
+    const folder = folders.get(name) || { name, item: [] };
+    folders.set(name, folder);
+
+    folder.item.push(createRequestItem(route, auth));
+  });
+
+  const hasProtectedRoutes = routes.some((route) => route.protected && route.method !== "_ALL");
+
+  return {
+    info: {
+      name: options.name ?? appInfo.name ?? "API",
+      ...(options.description && { description: options.description }),
+      ...(appInfo.version && { version: appInfo.version }),
+      schema: POSTMAN_SCHEMA_URL,
+    },
+    item: Array.from(folders.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    variable: [
+      { key: "baseUrl", value: baseUrl, type: "string" },
+      ...(hasProtectedRoutes ? [{ key: "authToken", value: "", type: "string" as const }] : []),
+    ],
+  };
+}
+
+/**
+ * Create the Postman request of a route
+ */
+function createRequestItem(route: RouteInfo, auth: PostmanAuth): PostmanRequestItem {
+  const path = toPostmanPath(route.path);
+  const variable = extractPathParams(route.path).map((param) => {
+    const notes = [
+      param.optional && "optional",
+      param.wildcard && "matches one or more path segments",
+      param.pattern && `must match ${param.pattern}`,
+    ].filter(Boolean);
+
+    return { key: param.name, value: "", ...(notes.length > 0 && { description: notes.join(", ") }) };
+  });
+
+  return {
+    name: route.metadata.summary || `${route.method} ${route.path}`,
+    request: {
+      method: route.method,
+      ...(route.metadata.description && { description: route.metadata.description }),
+      header: [],
+      url: {
+        raw: `{{baseUrl}}${path}`,
+        host: ["{{baseUrl}}"],
+        path: path.split("/").filter(Boolean),
+        ...(variable.length > 0 && { variable }),
+      },
+      // Public routes must not inherit authentication set on the collection or a folder
+      auth: route.protected ? auth : { type: "noauth" },
+    },
+  };
+}
+
+/**
+ * Convert an Express path to a Postman path, where every parameter is a `:name` variable
+ * @example /files/:id(\d+)/*path => /files/:id/:path
+ */
+function toPostmanPath(path: string): string {
+  let unnamedIndex = 0;
+
+  return (
+    path
+      .replace(/:([A-Za-z_$][\w$]*)(?:\((?:[^()]|\([^()]*\))*\))?[?*+]?/g, ":$1")
+      .replace(/\*([A-Za-z_$][\w$]*)/g, ":$1")
+      .replace(/\*/g, () => `:${unnamedIndex++}`)
+      // Express 5 optional groups, like {/:id}
+      .replace(/[{}]/g, "") || "/"
+  );
+}
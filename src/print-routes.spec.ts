@@ -1,5 +1,8 @@
-import { printRoutes } from "./print-routes";
-import { RouteInfo } from "./types";
+import { printRoutes, formatRoutes, tableFormatter } from "./print-routes";
+import { RouteInfo, Formatter, RouteColumn } from "./types";
+import { describeMiddleware } from "./extract-routes.utils";
+import path from "path";
+import { createRoute } from "./test-utils";
 
 // Mock console.log and console.warn to capture output
 beforeEach(() => {
@@ -26,6 +29,8 @@ describe("printRoutes", () => {
           path: "/api/users",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
       ];
 
@@ -45,12 +50,16 @@ describe("printRoutes", () => {
           path: "/api/users",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
         {
           method: "GET",
           path: "/api/products",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
       ];
 
@@ -70,12 +79,16 @@ describe("printRoutes", () => {
           path: "/api/public",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
         {
           method: "GET",
           path: "/api/secure",
           protected: true,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
       ];
 
@@ -88,6 +101,153 @@ describe("printRoutes", () => {
     });
   });
 
+  describe("Location Column", () => {
+    const route: RouteInfo = {
+      method: "GET",
+      path: "/api/users",
+      protected: false,
+      middlewares: [],
+      inheritedMiddlewares: [],
+      metadata: {},
+      location: { file: path.join(process.cwd(), "src", "routes", "users.ts"), line: 12, column: 5 },
+    };
+
+    it("should not show the location column by default", () => {
+      printRoutes([route]);
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).not.toContain("LOCATION");
+      expect(consoleOutput).not.toContain("users.ts");
+    });
+
+    it("should show locations relative to the working directory", () => {
+      printRoutes([route], { showLocation: true });
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).toContain("LOCATION");
+      expect(consoleOutput).toContain(`${path.join("src", "routes", "users.ts")}:12:5`);
+    });
+
+    it("should keep absolute paths outside the working directory and mark unknown locations", () => {
+      const outsideFile = path.join(path.dirname(process.cwd()), "shared", "health.ts");
+      const routes: RouteInfo[] = [
+        { ...route, location: { file: outsideFile, line: 3, column: 1 } },
+        { ...route, path: "/api/status", location: undefined },
+      ];
+
+      printRoutes(routes, { showLocation: true });
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).toContain(`${outsideFile}:3:1`);
+      expect(consoleOutput).toMatch(/\/api\/status.*│ -/);
+    });
+  });
+
+  describe("Summary Column", () => {
+    const route: RouteInfo = {
+      method: "GET",
+      path: "/api/users",
+      protected: false,
+      middlewares: [],
+      inheritedMiddlewares: [],
+      metadata: { summary: "List users", tags: ["users", "public"] },
+    };
+
+    it("should show summaries and tags when enabled", () => {
+      printRoutes([route, { ...route, path: "/api/status", metadata: {} }], { showSummary: true });
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).toContain("SUMMARY");
+      expect(consoleOutput).toContain("List users [users, public]");
+      expect(consoleOutput).toMatch(/\/api\/status.*│ -/);
+    });
+
+    it("should show the summary after the location column", () => {
+      printRoutes([{ ...route, location: { file: path.join(process.cwd(), "app.ts"), line: 1, column: 1 } }], {
+        showLocation: true,
+        showSummary: true,
+      });
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).toMatch(/LOCATION\s+│ SUMMARY/);
+      expect(consoleOutput).toMatch(/app\.ts:1:1\s+│ List users/);
+    });
+
+    it("should still print deprecated routes", () => {
+      printRoutes([{ ...route, metadata: { deprecated: true } }]);
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).toContain("/api/users");
+    });
+  });
+
+  describe("Protection Column", () => {
+    const route: RouteInfo = {
+      method: "DELETE",
+      path: "/api/users/:id",
+      protected: true,
+      protection: { scheme: "bearer", roles: ["admin"], scopes: ["users:write"], sources: ["checkJwt"] },
+      middlewares: [],
+      inheritedMiddlewares: [],
+      metadata: {},
+    };
+
+    it("should show the scheme, roles and scopes next to the lock icon", () => {
+      printRoutes([route]);
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).toContain("🔒 bearer roles:admin scopes:users:write");
+    });
+
+    it("should omit the generic scheme and align the following columns", () => {
+      const routes: RouteInfo[] = [
+        { ...route, protection: { scheme: "auth", roles: [], scopes: [], sources: ["requireAuth"] } },
+        { ...route, path: "/api/users", protection: { scheme: "auth", roles: ["editor"], scopes: [], sources: ["requireAuth"] } },
+        { ...route, method: "GET", path: "/api/status", protected: false, protection: undefined },
+      ];
+
+      printRoutes(routes, { showSummary: true });
+
+      const lines = (console.log as jest.Mock).mock.calls[0][0].split("\n") as string[];
+      const summaryOffsets = lines.filter((line) => line.includes("/api/")).map((line) => line.lastIndexOf("│"));
+
+      expect(lines.join("\n")).toContain("🔒 roles:editor");
+      expect(lines.join("\n")).not.toContain("auth");
+      expect(summaryOffsets).toHaveLength(3);
+      expect(new Set(summaryOffsets).size).toBe(1);
+    });
+  });
+
+  describe("Protection Mismatches", () => {
+    it("should show the issues next to the protection", () => {
+      const routes: RouteInfo[] = [
+        {
+          method: "GET",
+          path: "/api/admin/users",
+          protected: true,
+          protection: { scheme: "auth", roles: [], scopes: [], sources: [] },
+          protectionMismatch: { rule: { path: "/api/admin/**", protected: true }, issues: ["expected protected, no protection detected"] },
+          middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
+        },
+      ];
+
+      printRoutes(routes);
+
+      const consoleOutput = (console.log as jest.Mock).mock.calls.map((call) => call[0]?.toString() || "").join("\n");
+
+      expect(consoleOutput).toContain("🔒 ! expected protected, no protection detected");
+    });
+  });
+
   describe("Domain Extraction", () => {
     // Since extractDomain is private, we'll test it indirectly through printRoutes
     it("should correctly extract domain from API paths", () => {
@@ -97,6 +257,8 @@ describe("printRoutes", () => {
           path: "/api/users/123",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
       ];
 
@@ -114,6 +276,8 @@ describe("printRoutes", () => {
           path: "/health",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
       ];
 
@@ -123,6 +287,46 @@ describe("printRoutes", () => {
 
       expect(consoleOutput).toContain("Root");
     });
+
+    it("should group routes with the groupBy strategy", () => {
+      const output = formatRoutes(
+        [createRoute("GET", "/v2/users"), createRoute("GET", "/internal/jobs"), createRoute("GET", "/api/v1/users")],
+        {
+          groupBy: { by: "path", skipPrefixes: ["api", /^v\d+$/] },
+        }
+      );
+
+      expect(output.split("\n").map((line) => line.split(" │ ")[0].trim())).toEqual([
+        "DOMAIN",
+        expect.any(String),
+        "Internal",
+        "Users",
+        "",
+      ]);
+    });
+  });
+
+  describe("Output", () => {
+    const routes: RouteInfo[] = [
+      { method: "POST", path: "/api/users", protected: true, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+      { method: "GET", path: "/api/users", protected: false, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+    ];
+
+    it("should print the whole table with a single console.log call by default", () => {
+      printRoutes(routes);
+
+      expect(console.log).toHaveBeenCalledTimes(1);
+      expect((console.log as jest.Mock).mock.calls[0][0]).toBe(formatRoutes(routes));
+    });
+
+    it("should send the formatted routes to the given output", () => {
+      const output = jest.fn();
+
+      printRoutes(routes, { output, showSummary: true });
+
+      expect(console.log).not.toHaveBeenCalled();
+      expect(output).toHaveBeenCalledWith(formatRoutes(routes, { showSummary: true }));
+    });
   });
 
   describe("Route Sorting", () => {
@@ -133,35 +337,43 @@ describe("printRoutes", () => {
           path: "/api/users/123",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
         {
           method: "GET",
           path: "/api/users",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
         {
           method: "POST",
           path: "/api/products",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
         {
           method: "GET",
           path: "/api/products",
           protected: false,
           middlewares: [],
+          inheritedMiddlewares: [],
+          metadata: {},
         },
       ];
 
       printRoutes(routes);
 
-      // Capture calls to console.log
-      const calls = (console.log as jest.Mock).mock.calls;
+      // Capture the printed lines
+      const lines: string[] = (console.log as jest.Mock).mock.calls[0][0].split("\n");
 
       // Get the indices of relevant method displays (after header)
-      const productsCalls = calls.findIndex((call) => call[0] && call[0].toString().includes("Products"));
-      const usersCalls = calls.findIndex((call) => call[0] && call[0].toString().includes("Users"));
+      const productsCalls = lines.findIndex((line) => line.includes("Products"));
+      const usersCalls = lines.findIndex((line) => line.includes("Users"));
 
       // Use these indices to verify sorting - Products should come before Users alphabetically
       expect(productsCalls).toBeLessThan(usersCalls);
@@ -203,6 +415,60 @@ describe("printRoutes", () => {
     });
   });
 
+  describe("Sort Keys", () => {
+    it("should sort the routes of each group by the given keys", () => {
+      const routes = [createRoute("POST", "/api/users"), createRoute("GET", "/api/users/:id"), createRoute("GET", "/api/orders")];
+      const lines = formatRoutes(routes, { sortBy: ["path", "method"] }).split("\n");
+
+      expect(lines.slice(2).map((line) => line.split(" │ ").slice(0, 3).join(" ").replace(/\s+/g, " ").trimEnd())).toEqual([
+        "Orders GET /api/orders",
+        "Users POST /api/users",
+        " GET /api/users/:id",
+      ]);
+    });
+  });
+
+  describe("Columns", () => {
+    const handler = (name: string) => {
+      const middleware = (req: any, res: any, next: any) => next();
+      Object.defineProperty(middleware, "name", { value: name });
+
+      return describeMiddleware(middleware, "route");
+    };
+
+    const route: RouteInfo = {
+      method: "GET",
+      path: "/api/users/:id/*path",
+      protected: true,
+      middlewares: [handler("rateLimit"), handler("getUserFile")],
+      inheritedMiddlewares: [{ ...handler("requireAuth"), scope: "app" }],
+      metadata: { tags: ["users", "files"] },
+    };
+
+    it("should print the given columns in order", () => {
+      const lines = formatRoutes([route, { ...route, path: "/api/status", middlewares: [], inheritedMiddlewares: [], metadata: {} }], {
+        columns: ["path", "middleware", "handler", "params", "tags"],
+      }).split("\n");
+
+      expect(lines[0]).toMatch(/^PATH\s+│ MIDDLEWARE\s+│ HANDLER\s+│ PARAMS\s+│ TAGS$/);
+      expect(lines[1]).toBe("─".repeat(lines[3].length));
+      expect(lines[2]).toBe("/api/status          │ -                       │ -           │ -         │ -");
+      expect(lines[3]).toBe("/api/users/:id/*path │ requireAuth → rateLimit │ getUserFile │ id, path* │ users, files");
+    });
+
+    it("should override the location and summary options", () => {
+      const output = formatRoutes([route], { columns: ["method", "path"], showLocation: true, showSummary: true });
+
+      expect(output.split("\n")[0]).toMatch(/^METHOD │ PATH$/);
+    });
+
+    it("should reject unknown columns", () => {
+      expect(() => formatRoutes([route], { columns: ["owner" as RouteColumn] })).toThrow(
+        `Unknown column ${JSON.stringify("owner")}. Available columns: domain, method, path, protection, middleware, handler, params, location, tags, summary`
+      );
+    });
+  });
+
   // Helper function to mimic the private extractDomain function for tests
   function extractDomainForTest(path: string): string {
     const parts = path.split("/").filter(Boolean);
@@ -214,3 +480,257 @@ describe("printRoutes", () => {
     return "root";
   }
 });
+
+describe("formatRoutes", () => {
+  const routes: RouteInfo[] = [
+    { method: "DELETE", path: "/api/users/:id", protected: true, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+    { method: "GET", path: "/api/users", protected: false, middlewares: [], inheritedMiddlewares: [], metadata: {} },
+  ];
+
+  it("should return the table as a string without printing it", () => {
+    const table = formatRoutes(routes);
+    const lines = table.split("\n");
+
+    expect(console.log).not.toHaveBeenCalled();
+    expect(lines[0]).toMatch(/^DOMAIN\s+│ METHOD │ PATH\s+│ PROTECTION$/);
+    expect(lines[2]).toMatch(/^Users\s+│ GET\s+│ \/api\/users\s+│ 🌍$/);
+    expect(lines[3]).toMatch(/│ DELETE │ \/api\/users\/:id\s+│ 🔒$/);
+  });
+
+  it("should not reorder the given routes", () => {
+    formatRoutes(routes);
+
+    expect(routes.map((route) => route.method)).toEqual(["DELETE", "GET"]);
+  });
+
+  it("should use the table format by default", () => {
+    expect(formatRoutes(routes, { format: "table" })).toBe(formatRoutes(routes));
+    expect(formatRoutes(routes, { format: tableFormatter })).toBe(formatRoutes(routes));
+  });
+
+  it("should report when no routes match", () => {
+    expect(formatRoutes([])).toContain("No routes found matching your criteria");
+  });
+
+  it("should render routes with a custom formatter", () => {
+    const formatter: Formatter = {
+      format: (routesToFormat, options) =>
+        routesToFormat.map((route) => `${route.method} ${route.path}${options.showSummary ? " (summary)" : ""}`).join("\n"),
+    };
+
+    expect(formatRoutes(routes, { format: formatter, showSummary: true })).toBe(
+      "DELETE /api/users/:id (summary)\nGET /api/users (summary)"
+    );
+  });
+
+  it("should reject unknown formats", () => {
+    expect(() => formatRoutes(routes, { format: "yaml" as any })).toThrow(/Unknown route format "yaml"\. Available formats: table/);
+  });
+});
+
+describe("Tree Layout", () => {
+  const routes: RouteInfo[] = [
+    createRoute("DELETE", "/api/v1/users/:id", { protected: true, mountPath: "/api/v1/users" }),
+    createRoute("GET", "/api/v1/users/:id", { protected: true, mountPath: "/api/v1/users" }),
+    createRoute("GET", "/api/v1/users", { mountPath: "/api/v1/users" }),
+    createRoute("GET", "/api/v1/users/me", { mountPath: "/api/v1/users" }),
+    createRoute("POST", "/api/v1/orders", { metadata: { deprecated: true }, mountPath: "/api" }),
+    createRoute("GET", "/health", { mountPath: "/" }),
+    createRoute("GET", "/", { mountPath: "/" }),
+  ];
+
+  it("should draw a path segment tree with methods per segment", () => {
+    expect(formatRoutes(routes, { layout: "tree" }).split("\n")).toEqual([
+      "/                GET 🌍",
+      "├── api/v1",
+      "│   ├── orders   POST 🌍",
+      "│   └── users    GET 🌍",
+      "│       ├── me   GET 🌍",
+      "│       └── :id  GET 🔒  DELETE 🔒",
+      "└── health       GET 🌍",
+    ]);
+  });
+
+  it("should mark the segments routers are mounted on", () => {
+    expect(formatRoutes(routes, { layout: "tree", showMounts: true }).split("\n").slice(1, 4)).toEqual([
+      "├── api/v1       [router /api]",
+      "│   ├── orders   POST 🌍",
+      "│   └── users    GET 🌍  [router /api/v1/users]",
+    ]);
+  });
+
+  it("should only print segments of the root when there are no root routes", () => {
+    expect(formatRoutes([createRoute("GET", "/api/users/:id")], { layout: "tree" }).split("\n")).toEqual([
+      "/",
+      "└── api/users/:id  GET 🌍",
+    ]);
+  });
+
+  it("should fit the labels into the maximum width", () => {
+    const longRoutes = [
+      createRoute("GET", "/api/organizations/:organizationId/members", { protected: true }),
+      createRoute("GET", "/health"),
+    ];
+
+    expect(formatRoutes(longRoutes, { layout: "tree", maxWidth: 30 }).split("\n")).toEqual([
+      "/",
+      "├── api/organizations…  GET 🔒",
+      "└── health              GET 🌍",
+    ]);
+    expect(formatRoutes(longRoutes, { layout: "tree", maxWidth: 30, overflow: "wrap" }).split("\n")).toEqual([
+      "/",
+      "├── api/organizations   GET 🔒",
+      "│   /:organizationId",
+      "│   /members",
+      "└── health              GET 🌍",
+    ]);
+  });
+
+  it("should report when no routes match", () => {
+    expect(formatRoutes([], { layout: "tree" })).toContain("No routes found matching your criteria");
+  });
+});
+
+describe("Terminal Output", () => {
+  const routes = [
+    createRoute("GET", "/api/users/:userId/organizations/:organizationId", { protected: true }),
+    createRoute("POST", "/api/users"),
+  ];
+
+  it("should truncate long paths to fit the maximum width", () => {
+    const lines = formatRoutes(routes, { maxWidth: 50 }).split("\n");
+
+    expect(lines).toEqual([
+      "DOMAIN     │ METHOD │ PATH            │ PROTECTION",
+      "─".repeat(50),
+      "Users      │ GET    │ /api/users/:us… │ 🔒",
+      "           │ POST   │ /api/users      │ 🌍",
+    ]);
+  });
+
+  it("should wrap long paths at their segments", () => {
+    const lines = formatRoutes(routes, { maxWidth: 50, overflow: "wrap", columns: ["method", "path", "protection"] }).split("\n");
+
+    expect(lines.slice(2)).toEqual([
+      "GET    │ /api/users/:userId           │ 🔒",
+      "       │ /organizations               │",
+      "       │ /:organizationId             │",
+      "POST   │ /api/users                   │ 🌍",
+    ]);
+  });
+
+  it("should keep the minimum path width", () => {
+    const lines = formatRoutes(routes, { maxWidth: 20, overflow: "wrap" }).split("\n");
+
+    expect(lines[2]).toBe("Users      │ GET    │ /api/users │ 🔒");
+    expect(lines[3]).toBe("           │        │ /:userId   │");
+  });
+
+  it("should not limit the width by default", () => {
+    expect(formatRoutes(routes)).toContain("/api/users/:userId/organizations/:organizationId");
+  });
+
+  it("should fit the table into the terminal when printing to it", () => {
+    const stdout = process.stdout as { isTTY?: boolean; columns?: number };
+    const { isTTY, columns } = stdout;
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    try {
+      Object.assign(stdout, { isTTY: true, columns: 50 });
+      printRoutes(routes);
+      printRoutes(routes, { output: jest.fn() });
+    } finally {
+      Object.assign(stdout, { isTTY, columns });
+    }
+
+    expect((console.log as jest.Mock).mock.calls[0][0]).toBe(formatRoutes(routes, { maxWidth: 50 }));
+  });
+
+  it("should only use ASCII characters in the ASCII style", () => {
+    const output = [
+      formatRoutes(routes, { style: "ascii", maxWidth: 50, columns: ["domain", "path", "middleware", "protection"] }),
+      formatRoutes([...routes, createRoute("GET", "/health")], { style: "ascii", layout: "tree" }),
+    ].join("\n");
+
+    expect(output).toMatch(/^[\x20-\x7e\n]*$/);
+    expect(output).toContain("Users      | /api/use... | -          | [auth]");
+    expect(output).toContain("|-- api/users");
+    expect(output).toMatch(/`-- health +GET \[open\]/);
+  });
+
+  it("should use the icons of the theme", () => {
+    const output = formatRoutes(routes, { theme: { protectedIcon: "P", publicIcon: "-" }, columns: ["method", "protection"] });
+
+    expect(output.split("\n").slice(2)).toEqual(["GET    │ P", "POST   │ -"]);
+  });
+
+  describe("Colors", () => {
+    const ansiPattern = new RegExp(String.raw`\u001b\[`);
+
+    afterEach(() => {
+      delete process.env.NO_COLOR;
+    });
+
+    it("should follow the color support of the terminal by default", () => {
+      expect(formatRoutes(routes)).not.toMatch(ansiPattern);
+    });
+
+    it("should use colors when enabled, with the method colors of the theme", () => {
+      const output = formatRoutes([createRoute("POST", "/api/users")], { color: true, theme: { methodColors: { POST: "cyan" } } });
+
+      expect(output).toContain("\u001b[36mPOST");
+      expect(formatRoutes([createRoute("POST", "/api/users")], { color: true })).toContain("\u001b[34mPOST");
+    });
+
+    it("should reject unknown colors of the theme", () => {
+      expect(() => formatRoutes(routes, { theme: { methodColors: { GET: "purple" as any } } })).toThrow(
+        `Unknown color ${JSON.stringify("purple")}. Available colors: black, red, green, yellow, blue, magenta, cyan, white, gray`
+      );
+    });
+
+    it("should not use colors when NO_COLOR is set", () => {
+      const chalk = jest.requireActual("chalk");
+      const { level } = chalk;
+      chalk.level = 1;
+
+      try {
+        expect(formatRoutes(routes)).toMatch(ansiPattern);
+        process.env.NO_COLOR = "1";
+        expect(formatRoutes(routes)).not.toMatch(ansiPattern);
+        expect(formatRoutes(routes, { color: true })).toMatch(ansiPattern);
+      } finally {
+        chalk.level = level;
+      }
+    });
+  });
+});
+
+describe("Statistics", () => {
+  const routes = [
+    createRoute("GET", "/api/users/:id", { protected: true }),
+    createRoute("POST", "/api/users", { protected: true }),
+    createRoute("GET", "/health"),
+  ];
+
+  it("should not show statistics by default", () => {
+    expect(formatRoutes(routes)).not.toContain("Total:");
+  });
+
+  it("should show statistics under the table", () => {
+    const lines = formatRoutes(routes, { showStats: true }).split("\n");
+
+    expect(lines.slice(-4)).toEqual([
+      "",
+      "Total: 3 routes, 2 protected (67%), 1 public, 1 with params, 3 without middleware",
+      "Methods: GET 2, POST 1",
+      "Domains: Root 1, Users 2",
+    ]);
+  });
+
+  it("should show statistics under the tree with the groupBy strategy", () => {
+    const output = formatRoutes([createRoute("GET", "/health")], { showStats: true, layout: "tree", groupBy: "path" });
+
+    expect(output).toContain("Total: 1 route, 0 protected (0%), 1 public, 0 with params, 1 without middleware");
+    expect(output).toContain("Domains: Health 1");
+  });
+});
@@ -1,148 +1,454 @@
-import { RouteInfo } from "./types";
-import chalk from "chalk";
-
-// Get method color based on HTTP method
-const getMethodColor = (method: string): chalk.Chalk => {
-  switch (method) {
-    case "GET":
-      return chalk.green;
-    case "POST":
-      return chalk.blue;
-    case "PUT":
-      return chalk.yellow;
-    case "DELETE":
-      return chalk.red;
-    case "PATCH":
-      return chalk.magenta;
-    default:
-      return chalk.gray;
-  }
+import {
+  RouteInfo,
+  ProtectionMismatch,
+  Formatter,
+  RouteFormat,
+  FormatRoutesOptions,
+  PrintRoutesOptions,
+  RouteColumn,
+  RouteStats,
+} from "./types";
+import { formatDomainName, getMethodPriority, groupRoutes } from "./route-groups";
+import { summarizeRoutes } from "./route-stats";
+import { fitPath, formatLocation, formatProtectionDetails, formatSummary, resolveTerminalStyle, TerminalStyle } from "./print-routes.utils";
+import { extractPathParams } from "./extract-routes.utils";
+import { jsonFormatter } from "./json-formatter";
+import { markdownFormatter } from "./markdown-formatter";
+import { htmlFormatter } from "./html-formatter";
+
+/**
+ * Renders routes as a table grouped by domain, with colors and protection icons
+ */
+export const tableFormatter: Formatter = {
+  format: formatTable,
+};
+
+/**
+ * Built-in formatters, by name
+ */
+const FORMATTERS: Record<RouteFormat, Formatter> = {
+  table: tableFormatter,
+  json: jsonFormatter,
+  markdown: markdownFormatter,
+  html: htmlFormatter,
 };
 
 /**
- * Print formatted routes to the console
+ * Format routes as a string
  *
  * @param routes - Array of route information
- * @param config - Configuration options
+ * @param options - Format options, with `format` naming a built-in format or providing a custom formatter
+ * @returns The formatted routes
  */
-export function printRoutes(routes: RouteInfo[]): void {
-  if (routes.length === 0) {
-    console.log(chalk.yellow("No routes found matching your criteria"));
-    return;
+export function formatRoutes(routes: RouteInfo[], options: FormatRoutesOptions = {}): string {
+  const { format = "table" } = options;
+  const formatter = typeof format === "string" ? FORMATTERS[format] : format;
+
+  if (!formatter) {
+    throw new Error(`Unknown route format "${format}". Available formats: ${Object.keys(FORMATTERS).join(", ")}`);
   }
 
-  // Sort routes for better organization
-  routes.sort((a, b) => {
-    // First by base path
-    const aDomain = extractDomain(a.path);
-    const bDomain = extractDomain(b.path);
+  return formatter.format(routes, options);
+}
 
-    if (aDomain !== bDomain) {
-      return aDomain.localeCompare(bDomain);
-    }
+/**
+ * Print formatted routes to the console, or to the given output
+ *
+ * @param routes - Array of route information
+ * @param options - Print options
+ */
+export function printRoutes(routes: RouteInfo[], options: PrintRoutesOptions = {}): void {
+  const { output = console.log } = options;
+  // Fit the table into the terminal when printing to it
+  const maxWidth = options.maxWidth ?? (options.output === undefined && process.stdout.isTTY ? process.stdout.columns : undefined);
 
-    // Then by HTTP method priority (GET, POST, PUT, PATCH, DELETE)
-    const methodPriority: Record<string, number> = {
-      GET: 0,
-      POST: 1,
-      PUT: 2,
-      PATCH: 3,
-      DELETE: 4,
-    };
+  output(formatRoutes(routes, { ...options, maxWidth }));
+}
 
-    // Use safer access with explicit default values
-    const aPriority = a.method in methodPriority ? methodPriority[a.method] : 99;
-    const bPriority = b.method in methodPriority ? methodPriority[b.method] : 99;
+/**
+ * A path segment in the tree layout, with the routes ending at it
+ */
+interface PathTreeNode {
+  label: string;
+  path: string;
+  routes: RouteInfo[];
+  children: PathTreeNode[];
+  mountPaths: string[];
+}
 
-    return aPriority - bPriority;
-  });
+/**
+ * A route of the table, with its group name shown on the first row of each group
+ */
+interface TableRow {
+  route: RouteInfo;
+  groupName: string;
+}
 
-  // Group routes by domain (while preserving sort order)
-  const groupedRoutes: Record<string, RouteInfo[]> = {};
-  routes.forEach((route) => {
-    const domain = extractDomain(route.path);
-    if (!groupedRoutes[domain]) {
-      groupedRoutes[domain] = [];
+/**
+ * A column of the table format
+ * Cells are padded to the longest value, the header or the minimum width
+ */
+interface TableColumn {
+  header: string;
+  minWidth?: number;
+  value: (row: TableRow, style: TerminalStyle) => string;
+  /** Colors the value, or renders the cell when the value cannot be colored as a whole */
+  render: (row: TableRow, value: string, style: TerminalStyle) => string;
+}
+
+/**
+ * Columns of the table format, by name
+ */
+const TABLE_COLUMNS: Record<RouteColumn, TableColumn> = {
+  domain: { header: "DOMAIN", minWidth: 10, value: (row) => row.groupName, render: (row, value, style) => style.chalk.bold.cyan(value) },
+  method: {
+    header: "METHOD",
+    value: (row) => row.route.method,
+    render: (row, value, style) => style.methodColor(row.route.method)(value),
+  },
+  path: {
+    header: "PATH",
+    minWidth: 10,
+    value: (row) => row.route.path,
+    // Strike through deprecated routes
+    render: (row, value, style) => (row.route.metadata?.deprecated ? style.chalk.strikethrough.gray : style.chalk.white)(value),
+  },
+  protection: {
+    header: "PROTECTION",
+    // The emoji are two columns wide, as long as their UTF-16 encoding
+    value: (row, style) =>
+      [
+        row.route.protected ? style.protectedIcon : style.publicIcon,
+        formatProtectionDetails(row.route.protection),
+        formatProtectionMismatch(row.route.protectionMismatch),
+      ]
+        .filter(Boolean)
+        .join(" "),
+    render: (row, value, style) => {
+      const protectionDetails = formatProtectionDetails(row.route.protection);
+      const protectionMismatch = formatProtectionMismatch(row.route.protectionMismatch);
+
+      return (
+        (row.route.protected ? style.protectedIcon : style.publicIcon) +
+        (protectionDetails ? ` ${style.chalk.yellow(protectionDetails)}` : "") +
+        (protectionMismatch ? ` ${style.chalk.red(protectionMismatch)}` : "")
+      );
+    },
+  },
+  middleware: {
+    header: "MIDDLEWARE",
+    value: (row, style) => formatMiddlewareChain(row.route, style.arrow),
+    render: (row, value, style) => style.chalk.dim(value),
+  },
+  handler: { header: "HANDLER", value: (row) => formatHandler(row.route), render: (row, value, style) => style.chalk.white(value) },
+  params: { header: "PARAMS", value: (row) => formatParams(row.route.path), render: (row, value, style) => style.chalk.dim(value) },
+  location: {
+    header: "LOCATION",
+    value: (row) => formatLocation(row.route.location),
+    render: (row, value, style) => style.chalk.dim(value),
+  },
+  tags: {
+    header: "TAGS",
+    value: (row) => row.route.metadata.tags?.join(", ") || "-",
+    render: (row, value, style) => style.chalk.dim(value),
+  },
+  summary: {
+    header: "SUMMARY",
+    value: (row) => formatSummary(row.route.metadata),
+    render: (row, value, style) => style.chalk.dim(value),
+  },
+};
+
+/**
+ * Format routes as a table grouped by domain, or as a tree, followed by their statistics when enabled
+ */
+function formatTable(routes: RouteInfo[], options: FormatRoutesOptions): string {
+  const { layout = "table", showStats = false } = options;
+  const style = resolveTerminalStyle(options);
+
+  if (routes.length === 0) {
+    return style.chalk.yellow("No routes found matching your criteria");
+  }
+
+  const output = layout === "tree" ? formatTree(routes, options, style) : formatColumns(routes, options, style);
+
+  return showStats ? `${output}\n\n${formatStats(summarizeRoutes(routes, options.groupBy), style)}` : output;
+}
+
+/**
+ * Format routes as a table with a row per route
+ */
+function formatColumns(routes: RouteInfo[], options: FormatRoutesOptions, style: TerminalStyle): string {
+  const { showLocation = false, showSummary = false, maxWidth, overflow = "truncate" } = options;
+
+  const columnNames: RouteColumn[] = options.columns ?? [
+    "domain",
+    "method",
+    "path",
+    "protection",
+    ...(showLocation ? (["location"] as const) : []),
+    ...(showSummary ? (["summary"] as const) : []),
+  ];
+  const columns = columnNames.map((name) => {
+    if (!TABLE_COLUMNS[name]) {
+      throw new Error(`Unknown column "${name}". Available columns: ${Object.keys(TABLE_COLUMNS).join(", ")}`);
     }
-    groupedRoutes[domain].push(route);
+
+    return TABLE_COLUMNS[name];
   });
 
-  // Get sorted group names
-  const sortedGroups = Object.keys(groupedRoutes).sort();
+  // Group routes, sorted within each group, with the group name on the first row only
+  const rows: TableRow[] = groupRoutes(routes, options.groupBy, options.sortBy).flatMap((group) =>
+    group.routes.map((route, index) => ({ route, groupName: index === 0 ? group.name : "" }))
+  );
 
   // Calculate column widths for nice formatting
-  const methodWidth = Math.max(...routes.map((r) => r.method.length), 6);
-  const pathWidth = Math.max(...routes.map((r) => r.path.length), 10);
-
-  // Calculate group name width for the first column
-  const groupNames = sortedGroups.map((group) => formatDomainName(group));
-  const groupNameWidth = Math.max(...groupNames.map((name) => name.length), 10);
-
-  // Print header row - making this more robust with chalk
-  // Handle the case where bold.white might not chain properly
-  const headerText =
-    `${"DOMAIN".padEnd(groupNameWidth)} │ ` +
-    `METHOD${" ".repeat(methodWidth - 6)} │ ` +
-    `PATH${" ".repeat(pathWidth - 4)} │ ` +
-    "PROTECTION";
-
-  // Use bold then white instead of chaining if possible
-  console.log(chalk.bold.white(headerText));
-
-  console.log(chalk.dim("─".repeat(groupNameWidth + methodWidth + pathWidth + 20)));
-
-  // Print all routes with group names in the first column
-  let isFirstInGroup = true;
-
-  sortedGroups.forEach((group) => {
-    const groupName = formatDomainName(group);
-    isFirstInGroup = true;
-
-    // Print all routes in this group, already sorted by method
-    groupedRoutes[group].forEach((route) => {
-      const methodColor = getMethodColor(route.method);
-      const protectedIcon = route.protected ? "🔒" : "🌍";
-
-      // Only show group name for the first row in each group
-      const displayGroupName = isFirstInGroup ? groupName : "";
-
-      // Use try/catch for chalk operations
-      console.log(
-        `${chalk.bold.cyan(displayGroupName.padEnd(groupNameWidth))} │ ` +
-          `${methodColor(route.method.padEnd(methodWidth))} │ ` +
-          `${chalk.white(route.path.padEnd(pathWidth))} │ ` +
-          protectedIcon
+  const widths = columns.map((column) =>
+    Math.max(column.header.length, column.minWidth ?? 0, ...rows.map((row) => column.value(row, style).length))
+  );
+  const separatorWidth = style.columnSeparator.length;
+  const tableWidth = () => widths.reduce((total, width) => total + width, 0) + (columns.length - 1) * separatorWidth;
+
+  // Shrink the path column to fit the maximum width, down to its minimum width
+  const pathIndex = columnNames.indexOf("path");
+  if (maxWidth && pathIndex !== -1 && tableWidth() > maxWidth) {
+    widths[pathIndex] = Math.max(TABLE_COLUMNS.path.minWidth as number, widths[pathIndex] - (tableWidth() - maxWidth));
+  }
+
+  // The last column is not padded
+  const padding = (text: string, index: number) => (index === columns.length - 1 ? "" : " ".repeat(widths[index] - text.length));
+
+  const lines: string[] = [];
+
+  lines.push(
+    style.chalk.bold.white(columns.map((column, index) => column.header + padding(column.header, index)).join(style.columnSeparator))
+  );
+  lines.push(style.chalk.dim(style.rule.repeat(tableWidth())));
+
+  rows.forEach((row) => {
+    // Cells of a wrapped path continue on the next lines, next to empty cells
+    const cells = columns.map((column, index) =>
+      index === pathIndex ? fitPath(column.value(row, style), widths[index], overflow, style.ellipsis) : [column.value(row, style)]
+    );
+    const height = Math.max(...cells.map((cellLines) => cellLines.length));
+
+    for (let lineIndex = 0; lineIndex < height; lineIndex++) {
+      lines.push(
+        columns
+          .map((column, index) => {
+            const value = cells[index][lineIndex];
+            if (value === undefined) return padding("", index);
+
+            return column.render(row, value, style) + padding(value, index);
+          })
+          .join(style.columnSeparator)
+          .trimEnd()
       );
+    }
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Format the statistics of the routes
+ * @example
+ * Total: 3 routes, 2 protected (67%), 1 public, 1 with params, 2 without middleware
+ * Methods: GET 2, POST 1
+ * Domains: Root 1, Users 2
+ */
+function formatStats(stats: RouteStats, style: TerminalStyle): string {
+  const formatCounts = (counts: Record<string, number>, formatKey: (key: string) => string = (key) => key) =>
+    Object.entries(counts)
+      .map(([key, count]) => `${formatKey(key)} ${count}`)
+      .join(", ");
+
+  return [
+    [
+      "Total:",
+      `${stats.total} ${stats.total === 1 ? "route" : "routes"},`,
+      `${stats.protected} protected (${Math.round(stats.protectedRatio * 100)}%),`,
+      `${stats.unprotected} public,`,
+      `${stats.withParams} with params,`,
+      `${stats.withoutMiddleware} without middleware`,
+    ],
+    ["Methods:", formatCounts(stats.byMethod)],
+    ["Domains:", formatCounts(stats.byDomain, formatDomainName)],
+  ]
+    .map(([label, ...values]) => `${style.chalk.bold(label)} ${style.chalk.dim(values.join(" "))}`)
+    .join("\n");
+}
+
+/**
+ * Format the middleware chain of a route before its handler, inherited middleware first
+ * @example cors → requireAuth
+ */
+function formatMiddlewareChain(route: RouteInfo, arrow: string): string {
+  const chain = [...route.inheritedMiddlewares, ...route.middlewares.slice(0, -1)];
+
+  return chain.map((middleware) => middleware.name).join(arrow) || "-";
+}
+
+/**
+ * Format the name of the handler of a route, the last function of its chain
+ */
+function formatHandler(route: RouteInfo): string {
+  return route.middlewares[route.middlewares.length - 1]?.name ?? "-";
+}
+
+/**
+ * Format the parameters of a path
+ * @example /files/:id/:version?/*path => id, version?, path*
+ */
+function formatParams(path: string): string {
+  return (
+    extractPathParams(path)
+      .map((param) => `${param.name}${param.optional ? "?" : ""}${param.wildcard ? "*" : ""}`)
+      .join(", ") || "-"
+  );
+}
+
+/**
+ * Format the differences with the matching protection rule
+ * @example { issues: ["expected protected, no protection detected"] } => ! expected protected, no protection detected
+ */
+function formatProtectionMismatch(mismatch: ProtectionMismatch | undefined): string {
+  return mismatch ? `! ${mismatch.issues.join("; ")}` : "";
+}
+
+/**
+ * Format routes as a tree of path segments, collapsing segments without routes of their own
+ * @example
+ * /
+ * └── api/users                GET 🔒
+ *     └── :id                  GET 🔒  DELETE 🔒
+ */
+function formatTree(routes: RouteInfo[], options: FormatRoutesOptions, style: TerminalStyle): string {
+  const { showMounts = false, maxWidth, overflow = "truncate" } = options;
+  const root = collapsePathTree(buildPathTree(routes));
+
+  // Collect the branches first, so that methods line up after the longest one
+  const rows: Array<{ branch: string; indent: string; node: PathTreeNode }> = [{ branch: "", indent: "", node: root }];
+  const visit = (node: PathTreeNode, prefix: string) => {
+    node.children.forEach((child, index) => {
+      const isLast = index === node.children.length - 1;
+      const indent = prefix + (isLast ? style.lastIndent : style.indent);
 
-      isFirstInGroup = false;
+      rows.push({ branch: prefix + (isLast ? style.lastBranch : style.branch), indent, node: child });
+      visit(child, indent);
     });
+  };
+  visit(root, "");
+
+  // The details of each segment, as plain text to measure them and colored to print them
+  const details = rows.map(({ node }) => {
+    const parts = [...node.routes]
+      .sort((a, b) => getMethodPriority(a.method) - getMethodPriority(b.method))
+      .map((route) => {
+        const icon = route.protected ? style.protectedIcon : style.publicIcon;
+        const methodColor = route.metadata?.deprecated ? style.chalk.strikethrough.gray : style.methodColor(route.method);
+        return { text: `${route.method} ${icon}`, colored: `${methodColor(route.method)} ${icon}` };
+      });
+    if (showMounts && node.mountPaths.length > 0) {
+      const mounts = `[router ${node.mountPaths.join(", ")}]`;
+      parts.push({ text: mounts, colored: style.chalk.dim(mounts) });
+    }
+
+    return { text: parts.map((part) => part.text).join("  "), colored: parts.map((part) => part.colored).join("  ") };
   });
 
-  console.log(); // Add an empty line at the end
+  const labelWidth = Math.max(...rows.map(({ branch, node }) => branch.length + node.label.length));
+  const detailsWidth = Math.max(...details.map(({ text }) => text.length));
+
+  // Shrink the labels to fit the maximum width, down to the minimum width of the path column
+  const treeWidth = labelWidth + (detailsWidth > 0 ? 2 + detailsWidth : 0);
+  const shrink = maxWidth && treeWidth > maxWidth ? treeWidth - maxWidth : 0;
+  const minWidth = TABLE_COLUMNS.path.minWidth as number;
+
+  return rows
+    .flatMap(({ branch, indent, node }, index) => {
+      const labelColor = node === root ? style.chalk.bold.white : style.chalk.white;
+      const width = Math.max(labelWidth - branch.length - shrink, Math.min(node.label.length, minWidth));
+      // Labels wrapped over several lines continue under their branch
+      const [label, ...wrapped] = fitPath(node.label, width, overflow, style.ellipsis);
+
+      return [
+        style.chalk.dim(branch) +
+          (details[index].text ? `${labelColor(label.padEnd(width))}  ${details[index].colored}` : labelColor(label)),
+        ...wrapped.map((line) => style.chalk.dim(indent) + labelColor(line)),
+      ];
+    })
+    .join("\n");
 }
 
 /**
- * Extract the domain name from a path
- * @example /api/users/123 => users
+ * Build the tree of path segments of the routes
+ * Static segments come before parameters and wildcards
  */
-function extractDomain(path: string): string {
-  const parts = path.split("/").filter(Boolean);
+function buildPathTree(routes: RouteInfo[]): PathTreeNode {
+  const root: PathTreeNode = { label: "/", path: "/", routes: [], children: [], mountPaths: [] };
 
-  // If path is /api/something/... => return 'something'
-  if (parts.length >= 2 && parts[0] === "api") {
-    return parts[1]; // Return the domain part
-  }
+  routes.forEach((route) => {
+    const node = route.path
+      .split("/")
+      .filter(Boolean)
+      .reduce((parent, segment) => {
+        const path = `${parent.path === "/" ? "" : parent.path}/${segment}`;
+        let child = parent.children.find((candidate) => candidate.label === segment);
+
+        if (!child) {
+          child = { label: segment, path, routes: [], children: [], mountPaths: [] };
+          parent.children.push(child);
+        }
+
+        return child;
+      }, root);
+
+    node.routes.push(route);
+  });
+
+  // Mark the segments routers are mounted on, once their nodes exist
+  routes.forEach((route) => {
+    const mountNode = route.mountPath && route.mountPath !== "/" ? findPathTreeNode(root, route.mountPath) : undefined;
+    if (mountNode && !mountNode.mountPaths.includes(mountNode.path)) mountNode.mountPaths.push(mountNode.path);
+  });
+
+  return sortPathTree(root);
+}
+
+/**
+ * Find the node of a path in the tree
+ */
+function findPathTreeNode(node: PathTreeNode, path: string): PathTreeNode | undefined {
+  if (node.path === path) return node;
+
+  const child = node.children.find((candidate) => path === candidate.path || path.startsWith(`${candidate.path}/`));
+  return child && findPathTreeNode(child, path);
+}
+
+/**
+ * Sort segments alphabetically, placing parameters and wildcards last
+ */
+function sortPathTree(node: PathTreeNode): PathTreeNode {
+  const isDynamic = (segment: string) => /^[:*{]/.test(segment);
 
-  // If path doesn't follow the expected structure or is root, return 'root'
-  return "root";
+  node.children.sort((a, b) => Number(isDynamic(a.label)) - Number(isDynamic(b.label)) || a.label.localeCompare(b.label));
+  node.children.forEach(sortPathTree);
+
+  return node;
 }
 
 /**
- * Format domain name for display
+ * Merge segments without routes into their only child
+ * @example api -> users -> :id => api/users -> :id
  */
-function formatDomainName(domain: string): string {
-  if (domain === "root") {
-    return "Root";
+function collapsePathTree(node: PathTreeNode): PathTreeNode {
+  const children = node.children.map(collapsePathTree);
+
+  if (node.path !== "/" && node.routes.length === 0 && children.length === 1) {
+    const [child] = children;
+    return { ...child, label: `${node.label}/${child.label}`, mountPaths: [...node.mountPaths, ...child.mountPaths] };
   }
-  return domain.charAt(0).toUpperCase() + domain.slice(1);
+
+  return { ...node, children };
 }
@@ -0,0 +1,174 @@
+import { FormatRoutesOptions, RouteMetadata, RouteProtection, SourceLocation, TerminalColor } from "./types";
+import chalk from "chalk";
+import path from "path";
+
+/**
+ * Colors of the HTTP methods, shared by the terminal and HTML renderers
+ */
+export type MethodColor = "green" | "blue" | "yellow" | "red" | "magenta" | "gray";
+
+/**
+ * Colors the theme can give to the HTTP methods
+ */
+const TERMINAL_COLORS: TerminalColor[] = ["black", "red", "green", "yellow", "blue", "magenta", "cyan", "white", "gray"];
+
+/**
+ * Get the color name of an HTTP method
+ */
+export function getMethodColorName(method: string): MethodColor {
+  switch (method) {
+    case "GET":
+      return "green";
+    case "POST":
+      return "blue";
+    case "PUT":
+      return "yellow";
+    case "DELETE":
+      return "red";
+    case "PATCH":
+      return "magenta";
+    default:
+      return "gray";
+  }
+}
+
+/**
+ * Characters drawing the table and tree layouts
+ */
+interface LayoutCharacters {
+  columnSeparator: string;
+  rule: string;
+  branch: string;
+  lastBranch: string;
+  indent: string;
+  lastIndent: string;
+  arrow: string;
+  ellipsis: string;
+  protectedIcon: string;
+  publicIcon: string;
+}
+
+const UNICODE_CHARACTERS: LayoutCharacters = {
+  columnSeparator: " │ ",
+  rule: "─",
+  branch: "├── ",
+  lastBranch: "└── ",
+  indent: "│   ",
+  lastIndent: "    ",
+  arrow: " → ",
+  ellipsis: "…",
+  protectedIcon: "🔒",
+  publicIcon: "🌍",
+};
+
+const ASCII_CHARACTERS: LayoutCharacters = {
+  columnSeparator: " | ",
+  rule: "-",
+  branch: "|-- ",
+  lastBranch: "`-- ",
+  indent: "|   ",
+  lastIndent: "    ",
+  arrow: " -> ",
+  ellipsis: "...",
+  protectedIcon: "[auth]",
+  publicIcon: "[open]",
+};
+
+/**
+ * Colors and characters the terminal layouts are drawn with
+ */
+export interface TerminalStyle extends LayoutCharacters {
+  chalk: chalk.Chalk;
+  methodColor: (method: string) => chalk.Chalk;
+}
+
+/**
+ * Resolve the colors and characters of the terminal layouts from the format options
+ * Colors follow chalk's detection of the terminal unless `color` is set or `NO_COLOR` is defined
+ */
+export function resolveTerminalStyle(options: FormatRoutesOptions): TerminalStyle {
+  const { style = "unicode", theme = {} } = options;
+  const color = options.color ?? (!process.env.NO_COLOR && chalk.level > 0);
+  const instance = new chalk.Instance({ level: color ? chalk.level || 1 : 0 });
+  const characters = style === "ascii" ? ASCII_CHARACTERS : UNICODE_CHARACTERS;
+
+  Object.values(theme.methodColors ?? {}).forEach((methodColor) => {
+    if (!TERMINAL_COLORS.includes(methodColor)) {
+      throw new Error(`Unknown color "${methodColor}". Available colors: ${TERMINAL_COLORS.join(", ")}`);
+    }
+  });
+
+  return {
+    ...characters,
+    protectedIcon: theme.protectedIcon ?? characters.protectedIcon,
+    publicIcon: theme.publicIcon ?? characters.publicIcon,
+    chalk: instance,
+    methodColor: (method) => instance[theme.methodColors?.[method] ?? getMethodColorName(method)],
+  };
+}
+
+/**
+ * Fit a path into a column, truncating it with an ellipsis or wrapping it at its segments
+ * @example fitPath("/api/users/:id", 10, "wrap", "…") => ["/api", "/users/:id"]
+ */
+export function fitPath(text: string, width: number, overflow: "truncate" | "wrap", ellipsis: string): string[] {
+  if (text.length <= width) return [text];
+
+  if (overflow === "truncate") {
+    return [text.slice(0, Math.max(width - ellipsis.length, 0)) + ellipsis];
+  }
+
+  // Break inside segments only when they are wider than the column
+  const segments = (text.match(/\/?[^/]+|\//g) || []).flatMap((segment) => segment.match(new RegExp(`.{1,${width}}`, "g")) || []);
+
+  return segments.reduce<string[]>((lines, segment) => {
+    const last = lines[lines.length - 1];
+
+    if (last !== undefined && last.length + segment.length <= width) {
+      lines[lines.length - 1] = last + segment;
+    } else {
+      lines.push(segment);
+    }
+
+    return lines;
+  }, []);
+}
+
+/**
+ * Format a source location as a file:line:column reference that terminals and editors make clickable
+ * Files inside the working directory are shown relative to it
+ */
+export function formatLocation(location: SourceLocation | undefined): string {
+  if (!location) return "-";
+
+  const relativeFile = path.relative(process.cwd(), location.file);
+  const file = relativeFile && !relativeFile.startsWith("..") && !path.isAbsolute(relativeFile) ? relativeFile : location.file;
+
+  return `${file}:${location.line}:${location.column}`;
+}
+
+/**
+ * Format the scheme, roles and scopes of a protected route
+ * @example { scheme: "bearer", roles: ["admin"], scopes: ["users:read"] } => bearer roles:admin scopes:users:read
+ */
+export function formatProtectionDetails(protection: RouteProtection | undefined): string {
+  if (!protection) return "";
+
+  // The generic scheme adds nothing to the protected status
+  const scheme = protection.scheme === "auth" ? "" : protection.scheme;
+  const roles = protection.roles.length ? `roles:${protection.roles.join(",")}` : "";
+  const scopes = protection.scopes.length ? `scopes:${protection.scopes.join(",")}` : "";
+
+  return [scheme, roles, scopes].filter(Boolean).join(" ");
+}
+
+/**
+ * Format the summary and tags of a route
+ * @example { summary: "List users", tags: ["users"] } => List users [users]
+ */
+export function formatSummary(metadata: RouteMetadata | undefined): string {
+  const summary = metadata?.summary || "";
+  const tags = metadata?.tags?.length ? `[${metadata.tags.join(", ")}]` : "";
+
+  return [summary, tags].filter(Boolean).join(" ") || "-";
+}
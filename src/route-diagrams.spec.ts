@@ -0,0 +1,118 @@
+import express, { Router } from "express";
+import { toMermaid, toDot } from "./route-diagrams";
+import { extractRouteTree } from "./extract-routes";
+import { describeMiddleware } from "./extract-routes.utils";
+import { MountedMiddleware, RouterNode } from "./types";
+import { createRoute } from "./test-utils";
+
+const quoted = (text: string) => `"${text}"`;
+
+const middleware = (path: string, name: string): MountedMiddleware => {
+  const handler = (req: any, res: any, next: any) => next();
+  Object.defineProperty(handler, "name", { value: name });
+
+  return { path, info: describeMiddleware(handler, "router") };
+};
+
+const tree: RouterNode = {
+  type: "app",
+  mountPath: "/",
+  path: "/",
+  middlewares: [middleware("/", "cors")],
+  children: [
+    {
+      type: "router",
+      mountPath: "/api",
+      path: "/api",
+      middlewares: [middleware("/api", "requireAuth"), middleware("/api/admin", "requireAdmin")],
+      children: [
+        {
+          type: "route",
+          path: "/api/users",
+          routes: [createRoute("GET", "/api/users", { protected: true }), createRoute("POST", "/api/users", { protected: true })],
+        },
+        { type: "route", path: "/api/search", routes: [createRoute("GET", "/api/search")] },
+      ],
+    },
+    { type: "route", path: "/health", routes: [createRoute("GET", "/health"), createRoute("HEAD", "/health", { protected: true })] },
+  ],
+};
+
+describe("toMermaid", () => {
+  it("should render routers and routes as a flowchart", () => {
+    expect(toMermaid(tree)).toBe(
+      [
+        "flowchart LR",
+        `  node0[${quoted("app<br/>use: cors")}]`,
+        `  node1[${quoted("/api<br/>use: requireAuth, requireAdmin (/admin)")}]`,
+        `  node2([${quoted("GET 🔒, POST 🔒 /api/users")}]):::protected`,
+        `  node3([${quoted("GET /api/search")}])`,
+        `  node4([${quoted("GET, HEAD 🔒 /health")}])`,
+        "  node0 --> node1",
+        "  node1 --> node2",
+        "  node1 --> node3",
+        "  node0 --> node4",
+        "  classDef protected stroke:#d29922,stroke-width:2px",
+      ].join("\n")
+    );
+  });
+
+  it("should support the direction and hiding middleware", () => {
+    const output = toMermaid({ ...tree, children: [] }, { direction: "TB", showMiddleware: false });
+
+    expect(output).toBe(`flowchart TB\n  node0[${quoted("app")}]`);
+  });
+
+  it("should escape labels", () => {
+    const output = toMermaid({
+      ...tree,
+      middlewares: [],
+      children: [{ type: "route", path: String.raw`/say/"hi"`, routes: [createRoute("GET", "")] }],
+    });
+
+    expect(output).toContain(String.raw`node1(["GET /say/#quot;hi#quot;"])`);
+  });
+});
+
+describe("toDot", () => {
+  it("should render routers and routes as a directed graph", () => {
+    expect(toDot(tree)).toBe(
+      [
+        "digraph routes {",
+        "  rankdir=LR;",
+        `  node0 [label=${quoted("app\\nuse: cors")}, shape=box, style=rounded];`,
+        `  node1 [label=${quoted("/api\\nuse: requireAuth, requireAdmin (/admin)")}, shape=box, style=rounded];`,
+        `  node2 [label=${quoted("GET 🔒, POST 🔒 /api/users")}, shape=ellipse, color=orange, penwidth=2];`,
+        `  node3 [label=${quoted("GET /api/search")}, shape=ellipse];`,
+        `  node4 [label=${quoted("GET, HEAD 🔒 /health")}, shape=ellipse];`,
+        "  node0 -> node1;",
+        "  node1 -> node2;",
+        "  node1 -> node3;",
+        "  node0 -> node4;",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("should escape labels", () => {
+    const output = toDot({
+      ...tree,
+      middlewares: [],
+      children: [{ type: "route", path: String.raw`C:\dir "x"`, routes: [createRoute("GET", "")] }],
+    });
+
+    expect(output).toContain(String.raw`node1 [label="GET C:\\dir \"x\"", shape=ellipse];`);
+  });
+
+  it("should render the tree of an app", () => {
+    const app = express();
+    const router = Router();
+
+    router.get("/:id", (req, res) => res.send("User"));
+    app.use("/users", router);
+
+    expect(toDot(extractRouteTree(app), { direction: "TB" })).toContain("rankdir=TB;");
+    expect(toDot(extractRouteTree(app))).toContain(`node1 [label=${quoted("/users")}, shape=box, style=rounded];`);
+    expect(toDot(extractRouteTree(app))).toContain(`node2 [label=${quoted("GET /users/:id")}, shape=ellipse];`);
+  });
+});
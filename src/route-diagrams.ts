@@ -0,0 +1,139 @@
+import { RouteDiagramOptions, RouteTreeNode, RouterNode } from "./types";
+
+/**
+ * A node of a diagram, with its label split in lines
+ */
+interface DiagramNode {
+  id: string;
+  type: RouteTreeNode["type"];
+  lines: string[];
+  protected: boolean;
+}
+
+/**
+ * Nodes and parent-child edges of a route tree diagram
+ */
+interface Diagram {
+  nodes: DiagramNode[];
+  edges: Array<[string, string]>;
+}
+
+/**
+ * Render a route tree as a Mermaid flowchart
+ * @example toMermaid(extractRouteTree(app)) => flowchart LR\n  node0["app"] ...
+ *
+ * @param tree - Result of `extractRouteTree`
+ * @param options - Diagram options
+ * @returns The Mermaid definition
+ */
+export function toMermaid(tree: RouterNode, options: RouteDiagramOptions = {}): string {
+  const { direction = "LR" } = options;
+  const { nodes, edges } = collectDiagram(tree, options);
+
+  const lines = [
+    `flowchart ${direction}`,
+    ...nodes.map((node) => {
+      const label = `"${node.lines.map(escapeMermaid).join("<br/>")}"`;
+      const shape = node.type === "route" ? `([${label}])` : `[${label}]`;
+
+      return `  ${node.id}${shape}${node.protected ? ":::protected" : ""}`;
+    }),
+    ...edges.map(([parent, child]) => `  ${parent} --> ${child}`),
+  ];
+
+  if (nodes.some((node) => node.protected)) {
+    lines.push("  classDef protected stroke:#d29922,stroke-width:2px");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Render a route tree as a Graphviz DOT graph
+ * @example toDot(extractRouteTree(app)) => digraph routes {\n  rankdir=LR; ...
+ *
+ * @param tree - Result of `extractRouteTree`
+ * @param options - Diagram options
+ * @returns The DOT definition, to render with `dot -Tsvg`
+ */
+export function toDot(tree: RouterNode, options: RouteDiagramOptions = {}): string {
+  const { direction = "LR" } = options;
+  const { nodes, edges } = collectDiagram(tree, options);
+
+  return [
+    "digraph routes {",
+    `  rankdir=${direction};`,
+    ...nodes.map((node) => {
+      const label = node.lines.map(escapeDot).join("\\n");
+      const shape = node.type === "route" ? "shape=ellipse" : "shape=box, style=rounded";
+
+      return `  ${node.id} [label="${label}", ${shape}${node.protected ? ", color=orange, penwidth=2" : ""}];`;
+    }),
+    ...edges.map(([parent, child]) => `  ${parent} -> ${child};`),
+    "}",
+  ].join("\n");
+}
+
+/**
+ * Number the nodes of a route tree and list its edges, depth first
+ */
+function collectDiagram(tree: RouterNode, options: RouteDiagramOptions): Diagram {
+  const { showMiddleware = true } = options;
+  const diagram: Diagram = { nodes: [], edges: [] };
+
+  const visit = (node: RouteTreeNode, parentId?: string) => {
+    const id = `node${diagram.nodes.length}`;
+
+    if (node.type === "route") {
+      // Lock the methods that require authentication, like the table does
+      const methods = node.routes.map((route) => `${route.method}${route.protected ? " 🔒" : ""}`).join(", ");
+
+      diagram.nodes.push({
+        id,
+        type: "route",
+        lines: [`${methods} ${node.path}`],
+        protected: node.routes.every((route) => route.protected),
+      });
+    } else {
+      const middlewares = showMiddleware ? node.middlewares.map((middleware) => formatMountedMiddleware(node, middleware)) : [];
+
+      diagram.nodes.push({
+        id,
+        type: node.type,
+        lines: [node.type === "app" ? "app" : node.mountPath, ...(middlewares.length > 0 ? [`use: ${middlewares.join(", ")}`] : [])],
+        protected: false,
+      });
+    }
+
+    if (parentId) diagram.edges.push([parentId, id]);
+    if (node.type !== "route") node.children.forEach((child) => visit(child, id));
+  };
+
+  visit(tree);
+  return diagram;
+}
+
+/**
+ * Name a router middleware, with its mount path when it only applies to part of the router
+ * @example auth mounted on /api/admin in the /api router => auth (/admin)
+ */
+function formatMountedMiddleware(router: RouterNode, middleware: RouterNode["middlewares"][number]): string {
+  if (middleware.path === router.path) return middleware.info.name;
+
+  const relativePath = router.path === "/" ? middleware.path : middleware.path.slice(router.path.length);
+  return `${middleware.info.name} (${relativePath})`;
+}
+
+/**
+ * Escape a Mermaid label line, which can contain HTML
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/&/g, "#amp;").replace(/"/g, "#quot;").replace(/</g, "#lt;").replace(/>/g, "#gt;");
+}
+
+/**
+ * Escape a DOT label line
+ */
+function escapeDot(text: string): string {
+  return text.replace(/["\\]/g, (char) => `\\${char}`);
+}
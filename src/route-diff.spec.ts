@@ -0,0 +1,215 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import express from "express";
+import { diffRoutes, formatRouteDiff, readRouteSnapshot, toRouteSnapshot, writeRouteSnapshot } from "./route-diff";
+import { extractRoutes } from "./extract-routes";
+import { describeMiddleware } from "./extract-routes.utils";
+import { RouteInfo, RouteProtection } from "./types";
+import { createRoute } from "./test-utils";
+
+const middleware = (name: string) => {
+  const handler = (req: any, res: any, next: any) => next();
+  Object.defineProperty(handler, "name", { value: name });
+
+  return describeMiddleware(handler, "route");
+};
+
+// Routes end with their handler, like the extracted ones
+const createHandledRoute = (method: string, path: string, overrides: Partial<RouteInfo> = {}) =>
+  createRoute(method, path, { middlewares: [middleware("handler")], ...overrides });
+
+const protection = (overrides: Partial<RouteProtection> = {}): RouteProtection => ({
+  scheme: "bearer",
+  roles: [],
+  scopes: [],
+  sources: ["requireAuth"],
+  ...overrides,
+});
+
+describe("toRouteSnapshot", () => {
+  it("should keep the method, path, protection and middleware names, sorted by path and method", () => {
+    const snapshot = toRouteSnapshot([
+      createHandledRoute("POST", "/users", {
+        protected: true,
+        protection: protection(),
+        middlewares: [middleware("requireAuth"), middleware("createUser")],
+        inheritedMiddlewares: [{ ...middleware("cors"), scope: "app" }],
+        location: { file: "/app/users.ts", line: 3, column: 1 },
+      }),
+      createHandledRoute("GET", "/users"),
+      createHandledRoute("GET", "/health"),
+    ]);
+
+    expect(snapshot).toEqual({
+      snapshotVersion: 1,
+      routes: [
+        { method: "GET", path: "/health", protected: false, protection: null, middlewares: [] },
+        { method: "GET", path: "/users", protected: false, protection: null, middlewares: [] },
+        { method: "POST", path: "/users", protected: true, protection: protection(), middlewares: ["cors", "requireAuth"] },
+      ],
+    });
+  });
+
+  it("should sort by code unit, whatever the locale", () => {
+    const snapshot = toRouteSnapshot(
+      ["/users/abc", "/users", "/users/:id", "/Users"].map((routePath) => createHandledRoute("GET", routePath))
+    );
+
+    expect(snapshot.routes.map((entry) => entry.path)).toEqual(["/Users", "/users", "/users/:id", "/users/abc"]);
+  });
+});
+
+describe("writeRouteSnapshot and readRouteSnapshot", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "routes-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should write the snapshot only when the routes changed", () => {
+    const file = path.join(directory, "routes.snapshot.json");
+    const routes = [createHandledRoute("GET", "/health")];
+
+    expect(writeRouteSnapshot(file, routes)).toBe(true);
+    expect(writeRouteSnapshot(file, routes)).toBe(false);
+    expect(readRouteSnapshot(file)).toEqual(toRouteSnapshot(routes));
+    expect(fs.readFileSync(file, "utf8").endsWith("}\n")).toBe(true);
+
+    expect(writeRouteSnapshot(file, [...routes, createHandledRoute("GET", "/users")])).toBe(true);
+    expect(readRouteSnapshot(file).routes).toHaveLength(2);
+  });
+
+  it("should reject files that are not snapshots", () => {
+    const file = path.join(directory, "routes.json");
+    fs.writeFileSync(file, JSON.stringify({ routes: {} }));
+
+    expect(() => readRouteSnapshot(file)).toThrow(`Invalid route snapshot ${JSON.stringify(file)}. Write it with writeRouteSnapshot`);
+  });
+});
+
+describe("diffRoutes", () => {
+  it("should report added and removed routes", () => {
+    const diff = diffRoutes(
+      [createHandledRoute("GET", "/users"), createHandledRoute("DELETE", "/users/:id")],
+      [createHandledRoute("GET", "/users"), createHandledRoute("POST", "/users", { protected: true })]
+    );
+
+    expect(diff.hasBreakingChanges).toBe(true);
+    expect(
+      diff.changes.map(({ type, method, path: routePath, breaking, message }) => ({ type, method, path: routePath, breaking, message }))
+    ).toEqual([
+      { type: "added", method: "POST", path: "/users", breaking: false, message: "Route added (protected)" },
+      { type: "removed", method: "DELETE", path: "/users/:id", breaking: true, message: "Route removed" },
+    ]);
+  });
+
+  it("should classify protection changes", () => {
+    const before = [
+      createHandledRoute("GET", "/a"),
+      createHandledRoute("GET", "/b", { protected: true, protection: protection() }),
+      createHandledRoute("GET", "/c", { protected: true, protection: protection({ roles: ["admin"] }) }),
+      createHandledRoute("GET", "/d", { protected: true, protection: protection({ roles: ["admin"] }) }),
+      createHandledRoute("GET", "/e", { protected: true, protection: protection() }),
+    ];
+    const after = [
+      createHandledRoute("GET", "/a", { protected: true, protection: protection({ scopes: ["read"] }) }),
+      createHandledRoute("GET", "/b"),
+      createHandledRoute("GET", "/c", { protected: true, protection: protection() }),
+      createHandledRoute("GET", "/d", { protected: true, protection: protection({ roles: ["admin", "owner"] }) }),
+      createHandledRoute("GET", "/e", { protected: true, protection: protection({ scheme: "auth" }) }),
+    ];
+
+    expect(diffRoutes(before, after).changes.map(({ path: routePath, breaking, message }) => [routePath, breaking, message])).toEqual([
+      ["/a", true, "Protection added (bearer scopes:read)"],
+      ["/b", false, "Protection removed, the route is now public"],
+      ["/c", false, "Protection changed from bearer roles:admin to bearer"],
+      ["/d", true, "Protection changed from bearer roles:admin to bearer roles:admin,owner"],
+      ["/e", true, "Protection changed from bearer to auth"],
+    ]);
+  });
+
+  it("should report middleware chain changes", () => {
+    const diff = diffRoutes(
+      [createHandledRoute("GET", "/users", { middlewares: [middleware("rateLimit"), middleware("listUsers")] })],
+      toRouteSnapshot([createHandledRoute("GET", "/users", { middlewares: [middleware("listUsers")] })])
+    );
+
+    expect(diff).toEqual({
+      hasBreakingChanges: false,
+      changes: [expect.objectContaining({ type: "middleware", breaking: false, message: "Middleware changed from rateLimit to none" })],
+    });
+  });
+
+  it("should compare the routes of an app with a snapshot", () => {
+    const app = express();
+    function requireAuth(req: any, res: any, next: any) {
+      next();
+    }
+
+    app.get("/users", (req, res) => res.send("Users"));
+    const snapshot = toRouteSnapshot(extractRoutes(app));
+
+    app.get("/users/:id", requireAuth, (req, res) => res.send("User"));
+
+    expect(diffRoutes(snapshot, snapshot).changes).toEqual([]);
+    expect(diffRoutes(snapshot, extractRoutes(app, { protectionMiddlewareName: "requireAuth" })).changes).toEqual([
+      expect.objectContaining({ type: "added", method: "GET", path: "/users/:id", message: "Route added (protected)" }),
+    ]);
+  });
+});
+
+describe("formatRouteDiff", () => {
+  const diff = diffRoutes(
+    [createHandledRoute("DELETE", "/users/:id"), createHandledRoute("GET", "/users")],
+    [
+      createHandledRoute("GET", "/users", { middlewares: [middleware("a|b"), middleware("listUsers")] }),
+      createHandledRoute("POST", "/users"),
+    ]
+  );
+
+  it("should list breaking changes first", () => {
+    expect(formatRouteDiff(diff).split("\n")).toEqual([
+      "Breaking changes:",
+      "  - DELETE /users/:id  Route removed",
+      "",
+      "Non-breaking changes:",
+      "  ~ GET /users         Middleware changed from none to a|b",
+      "  + POST /users        Route added (public)",
+    ]);
+  });
+
+  it("should render Markdown tables", () => {
+    expect(formatRouteDiff(diff, { format: "markdown" })).toBe(
+      [
+        "### Breaking changes",
+        "",
+        "| Route | Change |",
+        "| --- | --- |",
+        "| `DELETE /users/:id` | Route removed |",
+        "",
+        "### Non-breaking changes",
+        "",
+        "| Route | Change |",
+        "| --- | --- |",
+        "| `GET /users` | Middleware changed from none to a\\|b |",
+        "| `POST /users` | Route added (public) |",
+      ].join("\n")
+    );
+  });
+
+  it("should report when nothing changed", () => {
+    const unchanged = diffRoutes([], []);
+
+    expect(formatRouteDiff(unchanged)).toBe("No route changes");
+    expect(formatRouteDiff(unchanged, { format: "markdown" })).toBe("_No route changes_");
+  });
+
+  it("should use colors when enabled", () => {
+    expect(formatRouteDiff(diff, { color: true })).toContain("\u001b[31m");
+  });
+});
@@ -0,0 +1,246 @@
+import fs from "fs";
+import {
+  FormatRouteDiffOptions,
+  RouteChange,
+  RouteChangeType,
+  RouteDiff,
+  RouteInfo,
+  RouteProtection,
+  RouteSnapshot,
+  RouteSnapshotEntry,
+} from "./types";
+import { formatProtectionDetails, resolveTerminalStyle } from "./print-routes.utils";
+
+/**
+ * Order of the changes of a route
+ */
+const CHANGE_ORDER: RouteChangeType[] = ["removed", "added", "protection", "middleware"];
+
+/**
+ * Convert routes to a snapshot, sorted so that snapshots of the same routes are identical
+ *
+ * @param routes - Array of route information
+ * @returns The snapshot of the routes
+ */
+export function toRouteSnapshot(routes: RouteInfo[]): RouteSnapshot {
+  const entries = routes.map(
+    (route): RouteSnapshotEntry => ({
+      method: route.method,
+      path: route.path,
+      protected: route.protected,
+      protection: route.protection || null,
+      // The last function of a route is its handler
+      middlewares: [...route.inheritedMiddlewares, ...route.middlewares.slice(0, -1)].map((middleware) => middleware.name),
+    })
+  );
+
+  return { snapshotVersion: 1, routes: entries.sort(compareEntries) };
+}
+
+/**
+ * Save routes as a snapshot file, to be committed and compared with `diffRoutes`
+ *
+ * @param file - Path of the snapshot file
+ * @param routes - Array of route information
+ * @returns Whether the file was written, false when it already matches the routes
+ */
+export function writeRouteSnapshot(file: string, routes: RouteInfo[]): boolean {
+  const content = `${JSON.stringify(toRouteSnapshot(routes), null, 2)}\n`;
+
+  if (fs.existsSync(file) && fs.readFileSync(file, "utf8") === content) return false;
+
+  fs.writeFileSync(file, content);
+  return true;
+}
+
+/**
+ * Read a snapshot file written by `writeRouteSnapshot`
+ *
+ * @param file - Path of the snapshot file
+ * @returns The snapshot
+ */
+export function readRouteSnapshot(file: string): RouteSnapshot {
+  const snapshot = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  if (snapshot?.snapshotVersion !== 1 || !Array.isArray(snapshot.routes)) {
+    throw new Error(`Invalid route snapshot "${file}". Write it with writeRouteSnapshot`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Compare two versions of the routes
+ * @example diffRoutes(readRouteSnapshot("routes.snapshot.json"), extractRoutes(app))
+ *
+ * Routes are matched by method and path. Removed routes and new or stricter protection are breaking,
+ * added routes, relaxed protection and middleware changes are not.
+ *
+ * @param before - Previous routes or their snapshot
+ * @param after - Current routes or their snapshot
+ * @returns The changes, and whether any of them is breaking
+ */
+export function diffRoutes(before: RouteInfo[] | RouteSnapshot, after: RouteInfo[] | RouteSnapshot): RouteDiff {
+  const beforeEntries = indexEntries(before);
+  const afterEntries = indexEntries(after);
+  const changes: RouteChange[] = [];
+
+  beforeEntries.forEach((entry, key) => {
+    if (!afterEntries.has(key)) {
+      changes.push({ type: "removed", method: entry.method, path: entry.path, breaking: true, message: "Route removed", before: entry });
+    }
+  });
+
+  afterEntries.forEach((entry, key) => {
+    const previous = beforeEntries.get(key);
+
+    if (!previous) {
+      const message = `Route added (${entry.protected ? "protected" : "public"})`;
+      changes.push({ type: "added", method: entry.method, path: entry.path, breaking: false, message, after: entry });
+      return;
+    }
+
+    const protectionChange = compareProtection(previous, entry);
+    if (protectionChange) {
+      changes.push({ type: "protection", method: entry.method, path: entry.path, ...protectionChange, before: previous, after: entry });
+    }
+
+    if (previous.middlewares.join() !== entry.middlewares.join()) {
+      const message = `Middleware changed from ${formatChain(previous.middlewares)} to ${formatChain(entry.middlewares)}`;
+      changes.push({
+        type: "middleware",
+        method: entry.method,
+        path: entry.path,
+        breaking: false,
+        message,
+        before: previous,
+        after: entry,
+      });
+    }
+  });
+
+  changes.sort((a, b) => compareEntries(a, b) || CHANGE_ORDER.indexOf(a.type) - CHANGE_ORDER.indexOf(b.type));
+
+  return { changes, hasBreakingChanges: changes.some((change) => change.breaking) };
+}
+
+/**
+ * Render a route diff, breaking changes first
+ *
+ * @param diff - Result of `diffRoutes`
+ * @param options - Text or Markdown format, and colors of the text format
+ * @returns The rendered changes
+ */
+export function formatRouteDiff(diff: RouteDiff, options: FormatRouteDiffOptions = {}): string {
+  const { format = "text" } = options;
+  const sections = [
+    { title: "Breaking changes", changes: diff.changes.filter((change) => change.breaking) },
+    { title: "Non-breaking changes", changes: diff.changes.filter((change) => !change.breaking) },
+  ].filter((section) => section.changes.length > 0);
+
+  if (format === "markdown") {
+    if (sections.length === 0) return "_No route changes_";
+
+    return sections
+      .map((section) =>
+        [
+          `### ${section.title}`,
+          "",
+          "| Route | Change |",
+          "| --- | --- |",
+          ...section.changes.map((change) => `| \`${change.method} ${change.path}\` | ${change.message.replace(/\|/g, "\\|")} |`),
+        ].join("\n")
+      )
+      .join("\n\n");
+  }
+
+  const { chalk } = resolveTerminalStyle({ color: options.color });
+  if (sections.length === 0) return chalk.green("No route changes");
+
+  const routeWidth = Math.max(...diff.changes.map((change) => change.method.length + change.path.length + 1));
+  const symbols: Record<RouteChangeType, string> = { added: "+", removed: "-", protection: "!", middleware: "~" };
+
+  return sections
+    .map((section) =>
+      [
+        (section.changes[0].breaking ? chalk.bold.red : chalk.bold.white)(`${section.title}:`),
+        ...section.changes.map(
+          (change) =>
+            `  ${symbols[change.type]} ${chalk.white(`${change.method} ${change.path}`.padEnd(routeWidth))}  ${chalk.dim(change.message)}`
+        ),
+      ].join("\n")
+    )
+    .join("\n\n");
+}
+
+/**
+ * Index routes or snapshot entries by method and path, keeping the first registration
+ */
+function indexEntries(routes: RouteInfo[] | RouteSnapshot): Map<string, RouteSnapshotEntry> {
+  const entries = Array.isArray(routes) ? toRouteSnapshot(routes).routes : routes.routes;
+  const index = new Map<string, RouteSnapshotEntry>();
+
+  entries.forEach((entry) => {
+    const key = `${entry.method} ${entry.path}`;
+    if (!index.has(key)) index.set(key, entry);
+  });
+
+  return index;
+}
+
+/**
+ * Describe the protection change of a route
+ * New or stricter requirements are breaking, relaxed ones are not
+ */
+function compareProtection(before: RouteSnapshotEntry, after: RouteSnapshotEntry): Pick<RouteChange, "breaking" | "message"> | undefined {
+  if (!before.protected && after.protected) {
+    return { breaking: true, message: `Protection added${formatRequirements(after.protection)}` };
+  }
+
+  if (before.protected && !after.protected) {
+    return { breaking: false, message: "Protection removed, the route is now public" };
+  }
+
+  const beforeDetails = formatProtectionDetails(before.protection || undefined);
+  const afterDetails = formatProtectionDetails(after.protection || undefined);
+  if (!after.protected || beforeDetails === afterDetails) return undefined;
+
+  const isAdded = (values: string[] = [], previous: string[] = []) => values.some((value) => !previous.includes(value));
+  const breaking =
+    (before.protection?.scheme ?? "auth") !== (after.protection?.scheme ?? "auth") ||
+    isAdded(after.protection?.roles, before.protection?.roles) ||
+    isAdded(after.protection?.scopes, before.protection?.scopes);
+
+  return { breaking, message: `Protection changed from ${beforeDetails || "auth"} to ${afterDetails || "auth"}` };
+}
+
+/**
+ * Format the scheme, roles and scopes required by a protection
+ * @example { scheme: "bearer", roles: ["admin"] } => " (bearer roles:admin)"
+ */
+function formatRequirements(protection: RouteProtection | null): string {
+  const details = formatProtectionDetails(protection || undefined);
+  return details ? ` (${details})` : "";
+}
+
+/**
+ * Format a middleware chain
+ */
+function formatChain(middlewares: string[]): string {
+  return middlewares.length > 0 ? middlewares.join(", ") : "none";
+}
+
+/**
+ * Sort by path, then by method
+ * Strings are compared by code unit, so that snapshots do not depend on the locale of the machine writing them
+ */
+function compareEntries(a: { method: string; path: string }, b: { method: string; path: string }): number {
+  return compareStrings(a.path, b.path) || compareStrings(a.method, b.method);
+}
+
+/**
+ * Compare two strings by code unit
+ */
+function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,173 @@
+import { extractDomain, formatDomainName, getRouteGroup, groupRoutes, sortRoutes } from "./route-groups";
+import { RouteSortKey } from "./types";
+import { GroupBy, RouteInfo } from "./types";
+import { createRoute } from "./test-utils";
+
+describe("extractDomain", () => {
+  it("should use the segment after /api", () => {
+    expect(extractDomain("/api/users/123")).toBe("users");
+  });
+
+  it("should group other paths under root", () => {
+    expect(extractDomain("/health")).toBe("root");
+    expect(extractDomain("/api")).toBe("root");
+    expect(extractDomain("/")).toBe("root");
+  });
+});
+
+describe("formatDomainName", () => {
+  it("should capitalize domain names", () => {
+    expect(formatDomainName("users")).toBe("Users");
+    expect(formatDomainName("root")).toBe("Root");
+  });
+});
+
+describe("getRouteGroup", () => {
+  const groupPath = (path: string, groupBy?: GroupBy) => getRouteGroup(createRoute("GET", path), groupBy);
+
+  it("should use the domain by default", () => {
+    expect(groupPath("/api/users/:id")).toBe("users");
+    expect(groupPath("/v2/users")).toBe("root");
+  });
+
+  it("should group by the first path segment after api", () => {
+    expect(groupPath("/api/users/:id", "path")).toBe("users");
+    expect(groupPath("/v2/users", "path")).toBe("v2");
+    expect(groupPath("/internal/jobs", "path")).toBe("internal");
+    expect(groupPath("/api", "path")).toBe("root");
+    expect(groupPath("/", "path")).toBe("root");
+  });
+
+  it("should support the depth and skipped prefixes of path grouping", () => {
+    const groupBy: GroupBy = { by: "path", depth: 2, skipPrefixes: ["api", /^v\d+$/] };
+
+    expect(groupPath("/api/v1/admin/users/:id", groupBy)).toBe("admin/users");
+    expect(groupPath("/v2/users/:id/posts", groupBy)).toBe("users");
+    expect(groupPath("/api/v1/:tenant/users", groupBy)).toBe("root");
+    expect(groupPath("/api/users/*path", { by: "path", depth: 3, skipPrefixes: [] })).toBe("api/users");
+  });
+
+  it("should group by mount router", () => {
+    expect(getRouteGroup(createRoute("GET", "/api/admin/users", { mountPath: "/api/admin" }), "mount")).toBe("/api/admin");
+    expect(getRouteGroup(createRoute("GET", "/health", { mountPath: "/" }), "mount")).toBe("root");
+    expect(getRouteGroup(createRoute("GET", "/health"), "mount")).toBe("root");
+  });
+
+  it("should group by the first tag", () => {
+    expect(getRouteGroup(createRoute("GET", "/invoices", { metadata: { tags: ["billing", "public"] } }), "tag")).toBe("billing");
+    expect(getRouteGroup(createRoute("GET", "/health"), "tag")).toBe("untagged");
+  });
+
+  it("should group with a custom function", () => {
+    const groupBy = (route: RouteInfo) => (route.protected ? "private" : "");
+
+    expect(getRouteGroup(createRoute("GET", "/me", { protected: true }), groupBy)).toBe("private");
+    expect(getRouteGroup(createRoute("GET", "/health"), groupBy)).toBe("root");
+  });
+
+  it("should reject unknown strategies", () => {
+    expect(() => groupPath("/health", "owner" as GroupBy)).toThrow(
+      new Error(`Unknown groupBy ${JSON.stringify("owner")}. Available strategies: domain, path, mount, tag`)
+    );
+  });
+});
+
+describe("groupRoutes", () => {
+  it("should sort groups by domain and routes by method", () => {
+    const groups = groupRoutes([
+      createRoute("DELETE", "/api/users/:id"),
+      createRoute("GET", "/health"),
+      createRoute("OPTIONS", "/api/users"),
+      createRoute("GET", "/api/users/:id"),
+      createRoute("GET", "/api/users"),
+    ]);
+
+    expect(groups.map((group) => group.name)).toEqual(["Root", "Users"]);
+    expect(groups[1]).toEqual({
+      domain: "users",
+      name: "Users",
+      routes: [
+        createRoute("GET", "/api/users/:id"),
+        createRoute("GET", "/api/users"),
+        createRoute("DELETE", "/api/users/:id"),
+        createRoute("OPTIONS", "/api/users"),
+      ],
+    });
+  });
+
+  it("should group routes with the given strategy", () => {
+    const groups = groupRoutes(
+      [createRoute("GET", "/v2/users"), createRoute("GET", "/internal/jobs"), createRoute("POST", "/v2/users")],
+      "path"
+    );
+
+    expect(groups.map((group) => [group.name, group.routes.length])).toEqual([
+      ["Internal", 1],
+      ["V2", 2],
+    ]);
+  });
+});
+
+describe("sortRoutes", () => {
+  const located = (method: string, path: string, file?: string, line = 1): RouteInfo =>
+    createRoute(method, path, file ? { location: { file, line, column: 1 } } : {});
+
+  const routes = [
+    located("DELETE", "/users/:id", "users.ts", 20),
+    located("GET", "/health"),
+    located("POST", "/users", "users.ts", 5),
+    located("GET", "/orders", "orders.ts", 3),
+    located("GET", "/users/:id", "users.ts", 12),
+  ];
+  const describeRoutes = (sorted: RouteInfo[]) => sorted.map((route) => `${route.method} ${route.path}`);
+
+  it("should sort by method by default, keeping the registration order", () => {
+    expect(describeRoutes(sortRoutes(routes))).toEqual([
+      "GET /health",
+      "GET /orders",
+      "GET /users/:id",
+      "POST /users",
+      "DELETE /users/:id",
+    ]);
+  });
+
+  it("should sort by path, source file and registration order", () => {
+    expect(describeRoutes(sortRoutes(routes, "path"))).toEqual([
+      "GET /health",
+      "GET /orders",
+      "POST /users",
+      "DELETE /users/:id",
+      "GET /users/:id",
+    ]);
+    expect(describeRoutes(sortRoutes(routes, "file"))).toEqual([
+      "GET /orders",
+      "POST /users",
+      "GET /users/:id",
+      "DELETE /users/:id",
+      "GET /health",
+    ]);
+    expect(sortRoutes(routes, "registration")).toEqual(routes);
+  });
+
+  it("should break ties with the next keys", () => {
+    expect(describeRoutes(sortRoutes(routes, ["path", "method"]))).toEqual([
+      "GET /health",
+      "GET /orders",
+      "POST /users",
+      "GET /users/:id",
+      "DELETE /users/:id",
+    ]);
+  });
+
+  it("should not reorder the given routes", () => {
+    sortRoutes(routes, "path");
+
+    expect(routes[0].method).toBe("DELETE");
+  });
+
+  it("should reject unknown keys", () => {
+    expect(() => sortRoutes(routes, "name" as RouteSortKey)).toThrow(
+      `Unknown sort key ${JSON.stringify("name")}. Available keys: path, method, registration, file`
+    );
+  });
+});
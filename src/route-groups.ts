@@ -0,0 +1,164 @@
+import { GroupBy, PathGroupBy, RouteInfo, RouteSortKey, SourceLocation } from "./types";
+
+/**
+ * Extract the domain name from a path
+ * @example /api/users/123 => users
+ */
+export function extractDomain(path: string): string {
+  const parts = path.split("/").filter(Boolean);
+
+  // If path is /api/something/... => return 'something'
+  if (parts.length >= 2 && parts[0] === "api") {
+    return parts[1]; // Return the domain part
+  }
+
+  // If path doesn't follow the expected structure or is root, return 'root'
+  return "root";
+}
+
+/**
+ * Format domain name for display
+ */
+export function formatDomainName(domain: string): string {
+  if (domain === "root") {
+    return "Root";
+  }
+  return domain.charAt(0).toUpperCase() + domain.slice(1);
+}
+
+/**
+ * Get the group of a route
+ * @example getRouteGroup(route, { by: "path", skipPrefixes: ["api", /^v\d+$/] }) => users for /api/v2/users/:id
+ *
+ * @param route - The route
+ * @param groupBy - Grouping strategy, "domain" by default
+ * @returns The group name, "root" when the route has none
+ */
+export function getRouteGroup(route: RouteInfo, groupBy: GroupBy = "domain"): string {
+  if (typeof groupBy === "function") return groupBy(route) || "root";
+  if (typeof groupBy === "object") return extractPathGroup(route.path, groupBy);
+
+  switch (groupBy) {
+    case "domain":
+      return extractDomain(route.path);
+    case "path":
+      return extractPathGroup(route.path, { by: "path" });
+    case "mount":
+      return !route.mountPath || route.mountPath === "/" ? "root" : route.mountPath;
+    case "tag":
+      return route.metadata.tags?.[0] || "untagged";
+    default:
+      throw new Error(`Unknown groupBy "${groupBy}". Available strategies: domain, path, mount, tag`);
+  }
+}
+
+/**
+ * Group a path by its first segments, after the skipped prefixes
+ * @example /api/v1/users/:id/posts with depth 2 and skipped api and v1 => users
+ */
+function extractPathGroup(path: string, options: PathGroupBy): string {
+  const { depth = 1, skipPrefixes = ["api"] } = options;
+  const segments = path.split("/").filter(Boolean);
+
+  const isSkipped = (segment: string) =>
+    skipPrefixes.some((prefix) => (typeof prefix === "string" ? prefix === segment : prefix.test(segment)));
+  const start = segments.findIndex((segment) => !isSkipped(segment));
+
+  // Parameters and wildcards are not groups
+  const end = segments.findIndex((segment, index) => index >= start && /^[:*{(]/.test(segment));
+  const groupSegments = start === -1 ? [] : segments.slice(start, Math.min(start + depth, end === -1 ? segments.length : end));
+
+  return groupSegments.join("/") || "root";
+}
+
+/**
+ * Routes of a domain
+ */
+export interface RouteGroup {
+  domain: string;
+  name: string;
+  routes: RouteInfo[];
+}
+
+/**
+ * Order of HTTP methods within a group, other methods come last
+ */
+const METHOD_PRIORITY: Record<string, number> = {
+  GET: 0,
+  POST: 1,
+  PUT: 2,
+  PATCH: 3,
+  DELETE: 4,
+};
+
+/**
+ * Group routes, sorting the groups by name and their routes by the sort keys (HTTP method by default)
+ */
+export function groupRoutes(routes: RouteInfo[], groupBy?: GroupBy, sortBy?: RouteSortKey | RouteSortKey[]): RouteGroup[] {
+  const groups = new Map<string, RouteInfo[]>();
+
+  routes.forEach((route) => {
+    const domain = getRouteGroup(route, groupBy);
+    const group = groups.get(domain) || [];
+    groups.set(domain, group);
+
+    group.push(route);
+  });
+
+  return Array.from(groups.keys())
+    .sort()
+    .map((domain) => ({
+      domain,
+      name: formatDomainName(domain),
+      routes: sortRoutes(groups.get(domain) as RouteInfo[], sortBy),
+    }));
+}
+
+/**
+ * Comparators of the sort keys, receiving the routes and their registration index
+ */
+const ROUTE_COMPARATORS: Record<RouteSortKey, (a: RouteInfo, b: RouteInfo, aIndex: number, bIndex: number) => number> = {
+  path: (a, b) => a.path.localeCompare(b.path),
+  method: (a, b) => getMethodPriority(a.method) - getMethodPriority(b.method),
+  registration: (a, b, aIndex, bIndex) => aIndex - bIndex,
+  file: (a, b) => compareLocations(a.location, b.location),
+};
+
+/**
+ * Sort routes by the given keys, the next key breaking ties and the registration order last
+ * @example sortRoutes(routes, ["file", "method"])
+ *
+ * @param routes - Routes in registration order
+ * @param sortBy - Sort key or keys, "method" by default
+ * @returns A sorted copy of the routes
+ */
+export function sortRoutes(routes: RouteInfo[], sortBy: RouteSortKey | RouteSortKey[] = "method"): RouteInfo[] {
+  const comparators = (Array.isArray(sortBy) ? sortBy : [sortBy]).map((key) => {
+    if (!(key in ROUTE_COMPARATORS)) {
+      throw new Error(`Unknown sort key "${key}". Available keys: ${Object.keys(ROUTE_COMPARATORS).join(", ")}`);
+    }
+
+    return ROUTE_COMPARATORS[key];
+  });
+
+  return routes
+    .map((route, index) => ({ route, index }))
+    .sort((a, b) => comparators.reduce((result, compare) => result || compare(a.route, b.route, a.index, b.index), 0) || a.index - b.index)
+    .map(({ route }) => route);
+}
+
+/**
+ * Compare source locations by file, line and column, missing locations last
+ */
+function compareLocations(a: SourceLocation | undefined, b: SourceLocation | undefined): number {
+  if (!a || !b) return Number(!a) - Number(!b);
+
+  return a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Get the sort priority of an HTTP method
+ */
+export function getMethodPriority(method: string): number {
+  return method in METHOD_PRIORITY ? METHOD_PRIORITY[method] : 99;
+}
@@ -0,0 +1,65 @@
+import express, { Router } from "express";
+import { summarizeRoutes } from "./route-stats";
+import { extractRoutes } from "./extract-routes";
+import { createRoute } from "./test-utils";
+
+describe("summarizeRoutes", () => {
+  it("should count routes by method, domain and protection", () => {
+    const stats = summarizeRoutes([
+      createRoute("DELETE", "/api/users/:id", { protected: true }),
+      createRoute("OPTIONS", "/api/users"),
+      createRoute("GET", "/health"),
+      createRoute("GET", "/api/orders/:id", { protected: true }),
+      createRoute("POST", "/api/orders", { protected: true }),
+    ]);
+
+    expect(stats).toEqual({
+      total: 5,
+      byMethod: { GET: 2, POST: 1, DELETE: 1, OPTIONS: 1 },
+      byDomain: { orders: 2, root: 1, users: 2 },
+      protected: 3,
+      unprotected: 2,
+      protectedRatio: 0.6,
+      withParams: 2,
+      withoutMiddleware: 5,
+    });
+    expect(Object.keys(stats.byMethod)).toEqual(["GET", "POST", "DELETE", "OPTIONS"]);
+    expect(Object.keys(stats.byDomain)).toEqual(["orders", "root", "users"]);
+  });
+
+  it("should count domains with the groupBy strategy", () => {
+    expect(summarizeRoutes([createRoute("GET", "/v2/users"), createRoute("GET", "/internal/jobs")], "path").byDomain).toEqual({
+      internal: 1,
+      v2: 1,
+    });
+  });
+
+  it("should count routes without middleware before their handler", () => {
+    const app = express();
+    const router = Router();
+    function requireAuth(req: any, res: any, next: any) {
+      next();
+    }
+
+    router.use(requireAuth);
+    router.get("/me", (req, res) => res.send("Me"));
+    app.use("/account", router);
+    app.get("/health", (req, res) => res.send("OK"));
+    app.get("/search", requireAuth, (req, res) => res.send("Results"));
+
+    expect(summarizeRoutes(extractRoutes(app)).withoutMiddleware).toBe(1);
+  });
+
+  it("should summarize an empty list", () => {
+    expect(summarizeRoutes([])).toEqual({
+      total: 0,
+      byMethod: {},
+      byDomain: {},
+      protected: 0,
+      unprotected: 0,
+      protectedRatio: 0,
+      withParams: 0,
+      withoutMiddleware: 0,
+    });
+  });
+});
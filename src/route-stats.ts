@@ -0,0 +1,46 @@
+import { GroupBy, RouteInfo, RouteStats } from "./types";
+import { extractPathParams } from "./extract-routes.utils";
+import { getMethodPriority, getRouteGroup } from "./route-groups";
+
+/**
+ * Summarize routes as numbers that can be printed or charted over time
+ * @example summarizeRoutes(extractRoutes(app)).protectedRatio => 0.75
+ *
+ * @param routes - Array of route information
+ * @param groupBy - How routes are counted by domain, "domain" by default
+ * @returns The statistics of the routes
+ */
+export function summarizeRoutes(routes: RouteInfo[], groupBy?: GroupBy): RouteStats {
+  const protectedCount = routes.filter((route) => route.protected).length;
+
+  return {
+    total: routes.length,
+    byMethod: countBy(
+      [...routes].sort((a, b) => getMethodPriority(a.method) - getMethodPriority(b.method) || a.method.localeCompare(b.method)),
+      (route) => route.method
+    ),
+    byDomain: countBy(routes, (route) => getRouteGroup(route, groupBy), true),
+    protected: protectedCount,
+    unprotected: routes.length - protectedCount,
+    protectedRatio: routes.length > 0 ? protectedCount / routes.length : 0,
+    withParams: routes.filter((route) => extractPathParams(route.path).length > 0).length,
+    // The last function of a route is its handler
+    withoutMiddleware: routes.filter((route) => route.inheritedMiddlewares.length === 0 && route.middlewares.length <= 1).length,
+  };
+}
+
+/**
+ * Count routes by key, in the order of the routes or sorted by key
+ */
+function countBy(routes: RouteInfo[], getKey: (route: RouteInfo) => string, sortKeys = false): Record<string, number> {
+  const counts = new Map<string, number>();
+
+  routes.forEach((route) => {
+    const key = getKey(route);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  const keys = sortKeys ? Array.from(counts.keys()).sort() : Array.from(counts.keys());
+
+  return keys.reduce<Record<string, number>>((result, key) => ({ ...result, [key]: counts.get(key) as number }), {});
+}
@@ -0,0 +1,31 @@
+import express from "express";
+import { detectExpressVersion } from "./extract-routes.utils";
+import { RouteInfo } from "./types";
+
+/**
+ * Whether the specs run against Express 5 (EXPRESS_VERSION=5) instead of Express 4
+ */
+export const isExpress5 = detectExpressVersion(express()) === 5;
+
+/**
+ * Run a test only against Express 4
+ */
+export const itExpress4 = isExpress5 ? it.skip : it;
+
+/**
+ * Run a test only against Express 5
+ */
+export const itExpress5 = isExpress5 ? it : it.skip;
+
+/**
+ * Create a public route without middleware or metadata, with the given fields overridden
+ */
+export const createRoute = (method: string, path: string, overrides: Partial<RouteInfo> = {}): RouteInfo => ({
+  method,
+  path,
+  protected: false,
+  middlewares: [],
+  inheritedMiddlewares: [],
+  metadata: {},
+  ...overrides,
+});
@@ -1,3 +1,178 @@
+/**
+ * Location in a source file
+ */
+export interface SourceLocation {
+  /** Absolute path of the file */
+  file: string;
+
+  /** Line number (1-based) */
+  line: number;
+
+  /** Column number (1-based) */
+  column: number;
+}
+
+/**
+ * Documentation attached to routes with `describe` or `tag`
+ */
+export interface RouteMetadata {
+  /** One-line summary of what the route does */
+  summary?: string;
+
+  /** Longer description */
+  description?: string;
+
+  /** Tags used to group and filter routes */
+  tags?: string[];
+
+  /** Team or person owning the route */
+  owner?: string;
+
+  /** Roles allowed to call the route */
+  roles?: string[];
+
+  /** OAuth scopes required to call the route */
+  scopes?: string[];
+
+  /** Authentication scheme enforced by the middleware (e.g. "bearer", "session"), which marks it as protecting the route */
+  auth?: string;
+
+  /** Whether the route is deprecated, or a note explaining what to use instead */
+  deprecated?: boolean | string;
+
+  /** Any custom field */
+  [key: string]: unknown;
+}
+
+/**
+ * Where a middleware was registered
+ * - app: with `app.use()`
+ * - router: with `router.use()` on a mounted router
+ * - route: in the handler chain of the route itself
+ */
+export type MiddlewareScope = "app" | "router" | "route";
+
+/**
+ * Information about a middleware function in a route's chain
+ */
+export interface MiddlewareInfo {
+  /** Function name, without the "bound " prefix ("<anonymous>" for anonymous functions) */
+  name: string;
+
+  /** Whether the function has no name */
+  isAnonymous: boolean;
+
+  /** Whether the function was created with `Function.prototype.bind` */
+  isBound: boolean;
+
+  /** Whether the function is an async function */
+  isAsync: boolean;
+
+  /** Number of declared parameters */
+  arity: number;
+
+  /** Whether the function is an error handler (takes err, req, res, next) */
+  isErrorHandler: boolean;
+
+  /** Where the middleware was registered */
+  scope: MiddlewareScope;
+
+  /** Own enumerable properties attached to the function, plus metadata from `describe` or `tag` */
+  metadata: Record<string, unknown>;
+
+  /** Where the middleware was registered, when recorded by `instrument` */
+  location?: SourceLocation;
+
+  /** The middleware function itself */
+  handle: (...args: any[]) => any;
+}
+
+/**
+ * How a route is protected
+ */
+export interface RouteProtection {
+  /** Authentication scheme (e.g. "bearer", "session"); "auth" when unknown, "custom" when decided by `isProtected` */
+  scheme: string;
+
+  /** Roles required to call the route */
+  roles: string[];
+
+  /** Scopes required to call the route */
+  scopes: string[];
+
+  /** Names of the middleware enforcing the protection, in execution order */
+  sources: string[];
+}
+
+/**
+ * A middleware that protects the routes it runs before
+ */
+export interface ProtectionMiddleware {
+  /** Middleware name, or a pattern matching middleware names */
+  name: string | RegExp;
+
+  /** Authentication scheme it enforces, "auth" by default */
+  scheme?: string;
+
+  /** Roles it requires; read from `roles` in the middleware metadata by default */
+  roles?: string[] | ((middleware: MiddlewareInfo) => string[]);
+
+  /** Scopes it requires; read from `scopes` in the middleware metadata by default */
+  scopes?: string[] | ((middleware: MiddlewareInfo) => string[]);
+}
+
+/**
+ * Expected protection for the routes matching a path pattern and methods
+ */
+export interface ProtectionRule {
+  /**
+   * Path pattern: `*` matches one segment (or part of it), `**` any number of segments,
+   * and `:name` any single segment
+   * Example: "/api/admin/**" matches "/api/admin" and every route below it
+   */
+  path: string;
+
+  /** HTTP methods the rule applies to, all methods by default */
+  methods?: string | string[];
+
+  /** Whether the matching routes must be protected */
+  protected: boolean;
+
+  /** Scheme the matching routes must be protected with */
+  scheme?: string;
+
+  /** Roles the matching routes must require */
+  roles?: string[];
+
+  /** Scopes the matching routes must require */
+  scopes?: string[];
+}
+
+/**
+ * Difference between the protection expected by a rule and the one detected on a route
+ */
+export interface ProtectionMismatch {
+  /** The first rule matching the route */
+  rule: ProtectionRule;
+
+  /** What the detected protection is missing or has in excess */
+  issues: string[];
+}
+
+/**
+ * Options of `protectionFactory`
+ */
+export interface ProtectionFactoryOptions<A extends any[]> {
+  /** Authentication scheme enforced by the created middleware */
+  scheme: string;
+
+  /** Read the required roles from the factory arguments */
+  roles?: (...args: A) => string[];
+
+  /** Read the required scopes from the factory arguments */
+  scopes?: (...args: A) => string[];
+}
+
 /**
  * Information about an individual route
  */
@@ -11,14 +186,371 @@ export interface RouteInfo {
   /** Whether the route requires authentication */
   protected: boolean;
 
-  /** Array of middleware functions for the route */
-  middlewares: any[];
+  /** Scheme, roles and scopes required by the route, when it is protected */
+  protection?: RouteProtection;
+
+  /** Set when the protection detected from middleware differs from the matching protection rule */
+  protectionMismatch?: ProtectionMismatch;
+
+  /** Middleware in the handler chain of the route, including the final handler */
+  middlewares: MiddlewareInfo[];
+
+  /**
+   * App- and router-level middleware that run before the route, in execution order
+   * (only middleware mounted on a path matching the route)
+   */
+  inheritedMiddlewares: MiddlewareInfo[];
+
+  /** Where the route was registered, when recorded by `instrument` */
+  location?: SourceLocation;
+
+  /** Full path of the router the route was registered on ("/" for the app) */
+  mountPath?: string;
+
+  /** Metadata attached with `describe` or `tag` to the route and the middleware before it */
+  metadata: RouteMetadata;
+}
+
+/**
+ * A middleware registered with `use`, along with the full path it is mounted on
+ */
+export interface MountedMiddleware {
+  path: string;
+  info: MiddlewareInfo;
+}
+
+/**
+ * The app or a router in the route tree
+ */
+export interface RouterNode {
+  type: "app" | "router";
+
+  /** Path the router is mounted on, relative to its parent ("/" for the app) */
+  mountPath: string;
+
+  /** Full path the router is mounted on */
+  path: string;
+
+  /** Middleware registered with `use` on this router, in registration order */
+  middlewares: MountedMiddleware[];
+
+  /** Nested routers and routes, in registration order */
+  children: RouteTreeNode[];
+
+  /** Where the router was mounted (requires `instrument`) */
+  location?: SourceLocation;
+}
+
+/**
+ * A route in the route tree, with one route per HTTP method
+ */
+export interface RouteNode {
+  type: "route";
+
+  /** Full path of the route */
+  path: string;
+
+  routes: RouteInfo[];
+}
+
+/**
+ * A node of the route tree returned by `extractRouteTree`
+ */
+export type RouteTreeNode = RouterNode | RouteNode;
+
+/**
+ * A parameter in a route path
+ */
+export interface RouteParam {
+  /** Parameter name, or its index for unnamed Express 4 wildcards */
+  name: string;
+
+  /** Whether the parameter may be omitted (`:name?`, `{/:name}`) */
+  optional: boolean;
+
+  /** Whether the parameter matches several segments (`*`, `*name`, `:name*`) */
+  wildcard: boolean;
+
+  /** Regexp constraint of the parameter (`:id(\d+)`) */
+  pattern?: string;
+}
+
+/**
+ * Information about the application whose routes are formatted
+ */
+export interface AppInfo {
+  /** Application name */
+  name?: string;
+
+  /** Application version */
+  version?: string;
+
+  /** Major version of Express the app runs on */
+  expressVersion?: number;
+
+  /** Any custom field */
+  [key: string]: unknown;
+}
+
+/**
+ * Serializable description of a middleware, as found in the JSON output
+ */
+export interface SerializedMiddleware {
+  /** Function name ("<anonymous>" for anonymous functions) */
+  name: string;
+
+  /** Where the middleware was registered */
+  scope: MiddlewareScope;
+
+  /** Whether the function has no name */
+  isAnonymous: boolean;
+
+  /** Whether the function is an async function */
+  isAsync: boolean;
+
+  /** Whether the function is an error handler */
+  isErrorHandler: boolean;
+
+  /** Number of declared parameters */
+  arity: number;
+
+  /** Where the middleware was registered, null when unknown */
+  location: SourceLocation | null;
+}
+
+/**
+ * Serializable description of a route, as found in the JSON output
+ */
+export interface SerializedRoute {
+  /** HTTP method (GET, POST, etc.) */
+  method: string;
+
+  /** Full path of the route */
+  path: string;
+
+  /** Group of the route, as in the DOMAIN column ("users" for /api/users, "root" otherwise with the default `groupBy`) */
+  domain: string;
+
+  /** Parameters of the path, in order */
+  params: RouteParam[];
+
+  /** Whether the route requires authentication */
+  protected: boolean;
+
+  /** Scheme, roles and scopes required by the route, null when it is public */
+  protection: RouteProtection | null;
+
+  /** Path pattern of the protection rule the route does not satisfy, and why */
+  protectionMismatch: { rule: string; issues: string[] } | null;
+
+  /** Middleware in the handler chain of the route, including the final handler */
+  middlewares: SerializedMiddleware[];
+
+  /** App- and router-level middleware that run before the route */
+  inheritedMiddlewares: SerializedMiddleware[];
+
+  /** Where the route was registered, null when unknown */
+  location: SourceLocation | null;
+
+  /** Metadata attached with `describe` or `tag` */
+  metadata: RouteMetadata;
+}
+
+/**
+ * JSON output of the routes, described by `schema/routes.schema.json`
+ */
+export interface RouteInventory {
+  /** URL of the JSON Schema describing this document */
+  $schema: string;
+
+  /** Version of the schema, following semantic versioning */
+  schemaVersion: string;
+
+  /** When the inventory was generated (ISO 8601) */
+  generatedAt: string;
+
+  /** Information about the application */
+  app: AppInfo;
+
+  /** Routes, in extraction order */
+  routes: SerializedRoute[];
+}
+
+/**
+ * Names of the built-in route formats
+ */
+export type RouteFormat = "table" | "json" | "markdown" | "html";
+
+/**
+ * Renders routes as a string
+ */
+export interface Formatter {
+  /**
+   * Render the routes
+   * @param routes - Routes to render, which must not be modified
+   * @param options - Format options, including custom options of the formatter
+   */
+  format(routes: RouteInfo[], options: FormatRoutesOptions): string;
+}
+
+/**
+ * Group routes by path segments, after skipping prefixes like `api` or `v1`
+ */
+export interface PathGroupBy {
+  by: "path";
+
+  /**
+   * Number of path segments in the group name, stopping at the first parameter
+   * Default: 1
+   */
+  depth?: number;
+
+  /**
+   * Leading segments to skip, as names or patterns
+   * Default: ["api"]
+   */
+  skipPrefixes?: Array<string | RegExp>;
+}
+
+/**
+ * How routes are grouped in the table, the filters and the export formats
+ * - "domain": the segment after `/api`, other routes are grouped under root
+ * - "path": the first segment after skipping `api`, like `{ by: "path" }`
+ * - "mount": the path of the router the route was registered on
+ * - "tag": the first tag attached with `describe` or `tag`
+ * - a function returning the group name of a route
+ */
+export type GroupBy = "domain" | "path" | "mount" | "tag" | PathGroupBy | ((route: RouteInfo) => string);
+
+/**
+ * Keys to sort the routes of a group by
+ * - "path": alphabetically by path
+ * - "method": GET, POST, PUT, PATCH, DELETE, then other methods
+ * - "registration": in the order the routes were registered
+ * - "file": by source file and line (requires `instrument`), routes without a location last
+ */
+export type RouteSortKey = "path" | "method" | "registration" | "file";
+
+/**
+ * Columns of the table format
+ */
+export type RouteColumn =
+  | "domain"
+  | "method"
+  | "path"
+  | "protection"
+  | "middleware"
+  | "handler"
+  | "params"
+  | "location"
+  | "tags"
+  | "summary";
+
+/**
+ * Terminal colors available to the theme
+ */
+export type TerminalColor = "black" | "red" | "green" | "yellow" | "blue" | "magenta" | "cyan" | "white" | "gray";
+
+/**
+ * Colors and icons of the table and tree layouts
+ */
+export interface RouteTheme {
+  /** Colors of the HTTP methods, by method, merged with the default colors */
+  methodColors?: Record<string, TerminalColor>;
+
+  /** Icon of protected routes, "🔒" by default and "[auth]" in the ASCII style */
+  protectedIcon?: string;
+
+  /** Icon of public routes, "🌍" by default and "[open]" in the ASCII style */
+  publicIcon?: string;
+}
+
+/**
+ * Options for formatting routes as a string
+ */
+export interface FormatRoutesOptions {
+  /** Built-in format name or custom formatter, "table" by default */
+  format?: RouteFormat | Formatter;
+
+  /**
+   * How routes are grouped in the table and the export formats (and matched by `domainFilter`)
+   * Default: "domain"
+   */
+  groupBy?: GroupBy;
+
+  /**
+   * Keys to sort the routes of each group by, the next key breaking ties and the registration order last
+   * Default: "method"
+   */
+  sortBy?: RouteSortKey | RouteSortKey[];
+
+  /**
+   * Columns of the table format, in order
+   * Default: domain, method, path and protection, then location and summary when `showLocation` and `showSummary` are set
+   */
+  columns?: RouteColumn[];
+
+  /** Show a LOCATION column with the file and line each route was registered at (requires `instrument`) */
+  showLocation?: boolean;
+
+  /** Show a SUMMARY column with the summary and tags attached with `describe` or `tag` */
+  showSummary?: boolean;
+
+  /**
+   * Layout of the table format: a table grouped by domain, or a tree of path segments
+   * Default: "table"
+   */
+  layout?: "table" | "tree";
+
+  /** Mark the path segments routers are mounted on, in the tree layout */
+  showMounts?: boolean;
+
+  /** Show the statistics of `summarizeRoutes` under the table and tree layouts */
+  showStats?: boolean;
+
+  /**
+   * Maximum width of the table and tree layouts, long paths and tree labels are truncated or wrapped to fit
+   * Default: the terminal width when `printRoutes` prints to an interactive terminal, unlimited otherwise
+   */
+  maxWidth?: number;
+
+  /**
+   * How paths and tree labels longer than their column are fitted into `maxWidth`
+   * Default: "truncate"
+   */
+  overflow?: "truncate" | "wrap";
+
+  /**
+   * Use colors in the table and tree layouts
+   * Default: detected, disabled by the `NO_COLOR` environment variable and when the output is not a color terminal
+   */
+  color?: boolean;
+
+  /**
+   * Characters of the table and tree layouts: box drawing characters and emoji, or ASCII only
+   * Default: "unicode"
+   */
+  style?: "unicode" | "ascii";
+
+  /** Colors and icons of the table and tree layouts */
+  theme?: RouteTheme;
+
+  /** Information about the application, included in the JSON output */
+  appInfo?: AppInfo;
+}
+
+/**
+ * Options for printing routes to the console
+ */
+export interface PrintRoutesOptions extends FormatRoutesOptions {
+  /** Receives the formatted routes instead of `console.log` (e.g. a logger method) */
+  output?: (text: string) => void;
 }
 
 /**
  * Configuration options for route display
  */
-export interface DisplayRoutesConfig {
+export interface DisplayRoutesConfig extends PrintRoutesOptions {
   /**
    * Filter routes by domain - can be a single domain or array of domains
    * Example: "users" will match "/api/users/*"
@@ -28,6 +560,27 @@ export interface DisplayRoutesConfig {
   /** Only show routes that don't require authentication */
   showUnprotectedOnly?: boolean;
 
+  /**
+   * Filter routes by tags attached with `describe` or `tag` - can be a single tag or array of tags
+   * Routes with at least one of the tags are included
+   */
+  tagFilter?: string | string[];
+
+  /** Hide routes marked as deprecated with `describe` */
+  hideDeprecated?: boolean;
+
+  /**
+   * Filter routes by required role - can be a single role or array of roles
+   * Routes requiring at least one of the roles are included
+   */
+  roleFilter?: string | string[];
+
+  /**
+   * Filter routes by required scope - can be a single scope or array of scopes
+   * Routes requiring at least one of the scopes are included
+   */
+  scopeFilter?: string | string[];
+
   /**
    * Custom function to determine if a route is protected
    * Replaces the old protectionMiddlewareName parameter with more flexibility
@@ -52,4 +605,352 @@ export interface DisplayRoutesConfig {
    * Can be a single middleware name or an array of names
    */
   protectionMiddlewareName?: string | string[];
+
+  /**
+   * Middleware that protect routes, with the scheme, roles and scopes they enforce
+   * Example: { name: "requireRole", scheme: "session" } reads the roles from the middleware metadata
+   */
+  protectionMiddleware?: ProtectionMiddleware[];
+
+  /**
+   * Expected protection by path pattern and method, evaluated in order (the first matching rule applies)
+   * Rules do not change the detected protection, matching routes get a `protectionMismatch` when it disagrees with the rule
+   * Example: [{ path: "/api/admin/**", protected: true }, { path: "/health", methods: "GET", protected: false }]
+   */
+  protectionRules?: ProtectionRule[];
+
+  /** Only show routes whose detected protection differs from the matching protection rule */
+  showProtectionMismatchesOnly?: boolean;
+}
+
+/**
+ * Severity of an audit finding
+ */
+export type AuditSeverity = "error" | "warning" | "info";
+
+/**
+ * Checks run by `auditRoutes`
+ * - unprotected-sensitive-route: an unprotected route matches one of the sensitive path patterns
+ * - protection-after-handler: protection middleware comes after the handler in the route chain, so it never guards it
+ * - wildcard-write: a wildcard route accepts POST, PUT, PATCH or DELETE requests
+ * - protection-mismatch: the detected protection differs from the matching protection rule
+ */
+export type AuditCheck = "unprotected-sensitive-route" | "protection-after-handler" | "wildcard-write" | "protection-mismatch";
+
+/**
+ * A problem found by `auditRoutes`
+ */
+export interface AuditFinding {
+  /** The check that reported the problem */
+  check: AuditCheck;
+
+  /** How serious the problem is */
+  severity: AuditSeverity;
+
+  /** HTTP method of the route */
+  method: string;
+
+  /** Full path of the route */
+  path: string;
+
+  /** Human-readable description of the problem */
+  message: string;
+
+  /** The audited route */
+  route: RouteInfo;
+}
+
+/**
+ * Security policy checked by `auditRoutes`
+ * Protection detection and filter options work as in `displayRoutes`
+ */
+export interface AuditPolicy extends DisplayRoutesConfig {
+  /**
+   * Path patterns of routes that must be protected, with the same syntax as protection rules
+   * Example: ["/api/admin/**", "/internal/**"]
+   */
+  sensitivePaths?: string[];
+
+  /** Override the severity of checks, or turn them off */
+  severities?: Partial<Record<AuditCheck, AuditSeverity | "off">>;
+
+  /** Lowest severity that makes the audit fail, "error" by default */
+  failOn?: AuditSeverity;
+}
+
+/**
+ * Result of `auditRoutes`
+ */
+export interface AuditResult {
+  /** Problems found, most severe first */
+  findings: AuditFinding[];
+
+  /** Number of audited routes */
+  routeCount: number;
+
+  /** Whether no finding reaches the `failOn` severity */
+  passed: boolean;
+
+  /** 0 when the audit passed, 1 otherwise - suitable for `process.exitCode` */
+  exitCode: number;
+}
+
+/**
+ * Statistics of a set of routes, returned by `summarizeRoutes`
+ */
+export interface RouteStats {
+  /** Number of routes */
+  total: number;
+
+  /** Number of routes by HTTP method, in the table order */
+  byMethod: Record<string, number>;
+
+  /** Number of routes by group key (see `groupBy`), sorted by key */
+  byDomain: Record<string, number>;
+
+  /** Number of protected routes */
+  protected: number;
+
+  /** Number of public routes */
+  unprotected: number;
+
+  /** Share of protected routes, from 0 to 1 (0 without routes) */
+  protectedRatio: number;
+
+  /** Number of routes with path parameters */
+  withParams: number;
+
+  /** Number of routes without middleware before their handler, inherited middleware included */
+  withoutMiddleware: number;
+}
+
+/**
+ * A route as stored in a snapshot file, without source locations so that snapshots only change with the routes
+ */
+export interface RouteSnapshotEntry {
+  method: string;
+  path: string;
+  protected: boolean;
+  protection: RouteProtection | null;
+
+  /** Names of the middleware running before the handler, inherited middleware first */
+  middlewares: string[];
+}
+
+/**
+ * Routes saved by `writeRouteSnapshot`, sorted by path and method
+ */
+export interface RouteSnapshot {
+  /** Version of the snapshot format */
+  snapshotVersion: 1;
+  routes: RouteSnapshotEntry[];
+}
+
+/**
+ * Kind of difference between two versions of a route
+ */
+export type RouteChangeType = "added" | "removed" | "protection" | "middleware";
+
+/**
+ * A difference found by `diffRoutes`
+ */
+export interface RouteChange {
+  type: RouteChangeType;
+  method: string;
+  path: string;
+
+  /** Whether existing clients may stop working: removed routes and new or stricter protection */
+  breaking: boolean;
+
+  /** Human readable description of the change */
+  message: string;
+
+  /** The route before the change, unless it was added */
+  before?: RouteSnapshotEntry;
+
+  /** The route after the change, unless it was removed */
+  after?: RouteSnapshotEntry;
+}
+
+/**
+ * Result of `diffRoutes`
+ */
+export interface RouteDiff {
+  /** Changes sorted by path, method and type */
+  changes: RouteChange[];
+
+  /** Whether any change is breaking */
+  hasBreakingChanges: boolean;
+}
+
+/**
+ * Options for rendering a route diff
+ */
+export interface FormatRouteDiffOptions {
+  /** Plain text for terminals or Markdown for code review comments, "text" by default */
+  format?: "text" | "markdown";
+
+  /** Use colors in the text format, detected by default */
+  color?: boolean;
+}
+
+/**
+ * Matchers added to `expect` by `createRouteMatchers`, for Jest and Vitest
+ * Routes are given as a method and a path, or as a "METHOD /path" string
+ */
+export interface RouteMatchers<R = unknown> {
+  /** Check that an app or a list of routes has a route */
+  toHaveRoute(method: string, path?: string): R;
+
+  /** Check that a route of an app or a list of routes is protected, or that a route is protected when called without arguments */
+  toBeProtectedRoute(method?: string, path?: string): R;
+
+  /** Check that a middleware runs before or as the handler of a route, inherited middleware included */
+  toHaveMiddleware(route: string, middleware: string): R;
+
+  /** Compare the routes with a snapshot file, written on the first run and updated with `-u` */
+  toMatchRouteSnapshot(file?: string): R;
+}
+
+/**
+ * An OpenAPI 3.1 document
+ * Only the parts generated from routes are typed, hand-written fragments may add anything
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string; [key: string]: unknown };
+  servers?: Array<{ url: string; description?: string }>;
+  tags?: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, OpenAPIOperation>>;
+  components?: { securitySchemes?: Record<string, Record<string, unknown>>; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+/**
+ * An OpenAPI operation generated from a route
+ */
+export interface OpenAPIOperation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  tags: string[];
+  deprecated?: boolean;
+  parameters?: Array<Record<string, unknown>>;
+  security?: Array<Record<string, string[]>>;
+  responses: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for generating an OpenAPI document
+ * Protection detection and filter options work as in `displayRoutes`
+ */
+export interface OpenAPIOptions extends DisplayRoutesConfig {
+  /** Title, version and description of the API, defaulting to `appInfo` */
+  info?: Partial<OpenAPIDocument["info"]>;
+
+  /** Servers the API is available on */
+  servers?: OpenAPIDocument["servers"];
+
+  /**
+   * Security schemes, by name
+   * Routes use the scheme named like their protection scheme, or `defaultSecurityScheme`
+   * Default: { bearerAuth: { type: "http", scheme: "bearer" } }
+   */
+  securitySchemes?: Record<string, Record<string, unknown>>;
+
+  /** Security scheme of protected routes whose protection scheme has no matching name, the first one by default */
+  defaultSecurityScheme?: string;
+
+  /** Hand-written fragments deep-merged into the generated document, in order (arrays are replaced) */
+  fragments?: Array<Record<string, unknown>>;
+
+  /** Change the document once fragments are merged */
+  transform?: (document: OpenAPIDocument) => OpenAPIDocument;
+}
+
+/**
+ * Authentication of a Postman request
+ * @see https://schema.postman.com/collection/json/v2.1.0/draft-07/docs/index.html
+ */
+export interface PostmanAuth {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A request of a Postman collection
+ */
+export interface PostmanRequestItem {
+  name: string;
+  request: {
+    method: string;
+    description?: string;
+    header: Array<{ key: string; value: string }>;
+    url: {
+      raw: string;
+      host: string[];
+      path: string[];
+      variable?: Array<{ key: string; value: string; description?: string }>;
+    };
+    auth?: PostmanAuth;
+  };
+}
+
+/**
+ * A folder of a Postman collection, holding the requests of a domain group
+ */
+export interface PostmanFolder {
+  name: string;
+  item: PostmanRequestItem[];
+}
+
+/**
+ * A Postman collection (format v2.1)
+ */
+export interface PostmanCollection {
+  info: { name: string; description?: string; version?: string; schema: string };
+  item: PostmanFolder[];
+  variable: Array<{ key: string; value: string; type: "string" }>;
+}
+
+/**
+ * Options for exporting a Postman collection
+ * Protection detection and filter options work as in `displayRoutes`
+ */
+export interface PostmanOptions extends DisplayRoutesConfig {
+  /** Name of the collection, defaulting to the name in `appInfo` */
+  name?: string;
+
+  /** Description of the collection */
+  description?: string;
+
+  /**
+   * Initial value of the `{{baseUrl}}` variable
+   * Default: "http://localhost:3000"
+   */
+  baseUrl?: string;
+
+  /**
+   * Authentication placeholder of protected routes
+   * Default: a bearer token read from the `{{authToken}}` variable
+   */
+  auth?: PostmanAuth;
+}
+
+/**
+ * Options for rendering the route tree as a diagram
+ */
+export interface RouteDiagramOptions {
+  /**
+   * Direction of the diagram: left to right or top to bottom
+   * Default: "LR"
+   */
+  direction?: "LR" | "TB";
+
+  /**
+   * List the middleware registered on each router
+   * Default: true
+   */
+  showMiddleware?: boolean;
 }
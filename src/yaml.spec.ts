@@ -0,0 +1,35 @@
+import { toYAML } from "./yaml";
+
+const quoted = (value: string) => JSON.stringify(value);
+
+describe("toYAML", () => {
+  it("should write nested objects with two-space indentation", () => {
+    expect(toYAML({ info: { title: "API", version: "1.0.0" } })).toBe(`info:\n  title: API\n  version: ${quoted("1.0.0")}\n`);
+  });
+
+  it("should write arrays as lists, with objects starting on the dash line", () => {
+    expect(toYAML({ tags: [{ name: "Users", description: "User accounts" }], methods: ["get", "post"] })).toBe(
+      `tags:\n  - name: Users\n    description: ${quoted("User accounts")}\n` + "methods:\n  - get\n  - post\n"
+    );
+  });
+
+  it("should write nested lists and empty collections inline", () => {
+    expect(toYAML({ security: [{ bearerAuth: [] }], matrix: [[1, 2]], components: {} })).toBe(
+      "security:\n  - bearerAuth: []\nmatrix:\n  -\n    - 1\n    - 2\ncomponents: {}\n"
+    );
+  });
+
+  it("should quote strings that would not be read back as the same string", () => {
+    expect(toYAML({ "200": "yes", path: "/users/{id}", empty: "", colon: "a: b", count: 3, flag: true, none: null })).toBe(
+      `${quoted("200")}: ${quoted("yes")}\npath: /users/{id}\nempty: ${quoted("")}\ncolon: ${quoted("a: b")}\ncount: 3\nflag: true\nnone: null\n`
+    );
+  });
+
+  it("should skip undefined values", () => {
+    expect(toYAML({ summary: undefined, operationId: "getUsers" })).toBe("operationId: getUsers\n");
+  });
+
+  it("should write top-level scalars", () => {
+    expect(toYAML("text")).toBe("text\n");
+  });
+});
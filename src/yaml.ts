@@ -0,0 +1,67 @@
+/**
+ * Strings that can be written without quotes
+ * Anything else (including strings YAML would read as booleans, numbers or null) is written as a JSON string
+ */
+const PLAIN_STRING_PATTERN = /^[A-Za-z_/][\w./{}-]*$/;
+const RESERVED_WORDS = ["true", "false", "yes", "no", "on", "off", "null", "~"];
+
+/**
+ * Serialize a JSON-compatible value as YAML
+ * @example toYAML({ paths: { "/users": { get: { tags: ["Users"] } } } }) => paths:\n  /users:\n    get:\n      tags:\n        - Users\n
+ *
+ * @param value - Plain objects, arrays, strings, numbers, booleans and null
+ * @returns The YAML document, ending with a newline
+ */
+export function toYAML(value: unknown): string {
+  // Drop the line break or space a value gets after its key
+  return `${formatValue(value, 0).replace(/^[\n ]/, "")}\n`;
+}
+
+/**
+ * Format a value placed after a key or a list dash
+ * Non-empty objects and arrays start on a new line, indented one level deeper
+ */
+function formatValue(value: unknown, depth: number): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) return " []";
+
+    return value.map((item) => `\n${"  ".repeat(depth)}-${formatListItem(item, depth + 1)}`).join("");
+  }
+
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, entryValue]) => entryValue !== undefined);
+    if (entries.length === 0) return " {}";
+
+    return entries.map(([key, entryValue]) => `\n${"  ".repeat(depth)}${formatString(key)}:${formatValue(entryValue, depth + 1)}`).join("");
+  }
+
+  return ` ${formatScalar(value)}`;
+}
+
+/**
+ * Format a list item, keeping the first key of an object on the dash line
+ */
+function formatListItem(item: unknown, depth: number): string {
+  if (item && typeof item === "object" && !Array.isArray(item) && Object.keys(item).length > 0) {
+    return formatValue(item, depth).replace(/^\n\s*/, " ");
+  }
+
+  return formatValue(item, depth);
+}
+
+/**
+ * Format a string, number, boolean or null
+ */
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") return formatString(value);
+
+  return String(value);
+}
+
+/**
+ * Quote strings that YAML would not read back as the same string
+ */
+function formatString(value: string): string {
+  return PLAIN_STRING_PATTERN.test(value) && !RESERVED_WORDS.includes(value.toLowerCase()) ? value : JSON.stringify(value);
+}